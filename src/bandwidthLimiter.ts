@@ -0,0 +1,123 @@
+/**
+ * Bandwidth Limiter
+ * Global token bucket shared by every download worker and chunk request,
+ * so the configured cap applies to the whole process rather than per file
+ *
+ * Schedule format: `HH:MM-HH:MM=bytesPerSecond`, e.g. `09:00-18:00=1048576`
+ * A range may wrap around midnight (`22:00-06:00=0`), `0` means unlimited
+ */
+
+interface BandwidthSchedule {
+    start: number;
+    end: number;
+    bytesPerSecond: number;
+}
+
+export class BandwidthLimiter {
+    private schedules: BandwidthSchedule[];
+    private tokens = 0;
+    private lastRefill = Date.now();
+    private samples: { time: number, bytes: number }[] = [];
+
+    /** Window used to measure the current transfer rate */
+    private static readonly RATE_WINDOW = 3000;
+
+    /**
+     * @param maxBytesPerSecond Default cap in bytes per second, 0 for unlimited
+     * @param schedules Time-of-day overrides, first match wins
+     */
+    constructor(private maxBytesPerSecond: number, schedules: string[] = []) {
+        this.schedules = schedules.map(v => BandwidthLimiter.parseSchedule(v)).filter(v => v);
+    }
+
+    /**
+     * Parse a schedule entry, invalid entries are ignored
+     */
+    private static parseSchedule(text: string): BandwidthSchedule | null {
+        const matches = `${text}`.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*=\s*(\d+)$/);
+
+        if (!matches) return null;
+
+        const [, h1, m1, h2, m2, limit] = matches.map(Number);
+
+        if (h1 > 24 || h2 > 24 || m1 > 59 || m2 > 59) return null;
+
+        return {
+            start: h1 * 60 + m1,
+            end: h2 * 60 + m2,
+            bytesPerSecond: limit,
+        };
+    }
+
+    /**
+     * Get the cap in effect right now
+     * @returns Bytes per second, 0 for unlimited
+     */
+    getLimit(date: Date = new Date()): number {
+        const minutes = date.getHours() * 60 + date.getMinutes();
+
+        for (const schedule of this.schedules) {
+            const inRange = schedule.start <= schedule.end
+                ? minutes >= schedule.start && minutes < schedule.end
+                : minutes >= schedule.start || minutes < schedule.end;
+
+            if (inRange) return schedule.bytesPerSecond;
+        }
+
+        return this.maxBytesPerSecond;
+    }
+
+    /**
+     * Reserve bandwidth for a transfer and wait until it may start
+     *
+     * Each caller reserves immediately and sleeps off its own deficit,
+     * so concurrent workers are served in arrival order without polling
+     * @param bytes Number of bytes about to be transferred
+     */
+    async acquire(bytes: number): Promise<void> {
+        this.record(bytes);
+
+        const limit = this.getLimit();
+
+        if (limit <= 0) {
+            this.tokens = 0;
+            this.lastRefill = Date.now();
+            return;
+        }
+
+        const now = Date.now();
+        // Allow at most one second of burst
+        this.tokens = Math.min(limit, this.tokens + (now - this.lastRefill) / 1000 * limit);
+        this.lastRefill = now;
+        this.tokens -= bytes;
+
+        if (this.tokens < 0) {
+            await new Promise(resolve => setTimeout(resolve, -this.tokens / limit * 1000));
+        }
+    }
+
+    /**
+     * Current transfer rate across all workers
+     * @returns Bytes per second
+     */
+    getCurrentRate(): number {
+        this.prune(Date.now());
+
+        const bytes = this.samples.reduce((sum, v) => sum + v.bytes, 0);
+
+        return Math.round(bytes / (BandwidthLimiter.RATE_WINDOW / 1000));
+    }
+
+    private record(bytes: number) {
+        const now = Date.now();
+
+        this.samples.push({ time: now, bytes });
+        this.prune(now);
+    }
+
+    private prune(now: number) {
+        while (this.samples.length && now - this.samples[0].time > BandwidthLimiter.RATE_WINDOW) {
+            this.samples.shift();
+        }
+    }
+}
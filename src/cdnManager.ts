@@ -0,0 +1,262 @@
+import bigInt from 'big-integer';
+import { createDecipheriv, createHash, createPublicKey } from 'crypto';
+import { Api, TelegramClient } from 'telegram';
+import { _serverKeys } from 'telegram/crypto/RSA';
+import { RPCError } from 'telegram/errors';
+import { Logger } from 'telegram/extensions/Logger';
+import { readBigIntFromBuffer } from 'telegram/Helpers';
+import { MTProtoSender } from 'telegram/network';
+import { serializeBytes } from 'telegram/tl';
+import { LAYER } from 'telegram/tl/AllTLObjects';
+
+import { DownloadStalledError } from './errors';
+import { FloodController } from './floodController';
+import { withTimeout } from './functions';
+import { HashVerifier } from './hashVerifier';
+
+/**
+ * CDN Manager
+ * Downloads files that Telegram redirects to its CDN data centers (upload.FileCdnRedirect)
+ *
+ * - CDN DCs are reached without authorization, using the RSA keys from help.GetCdnConfig
+ * - CDN chunks are AES-256-CTR encrypted with the key/IV of the redirect
+ * - Every decrypted chunk is verified against the hashes of upload.GetCdnFileHashes
+ */
+
+/**
+ * Invoke a request on the DC the file originally lives on
+ */
+export type OriginInvoker = <R extends Api.AnyRequest>(request: R) => Promise<R['__response']>;
+
+export class CdnManager {
+    private senders = new Map<number, Promise<MTProtoSender>>();
+    private keysLoaded: Promise<void> | null = null;
+    private dcOptions: Promise<Api.TypeDcOption[]> | null = null;
+
+    /**
+     * @param timeout Milliseconds to wait for a CDN response, 0 to wait forever
+     */
+    constructor(private client: TelegramClient, private logger?: Logger, private timeout: number = 0, private flood?: FloodController) {}
+
+    /**
+     * Invoke a request on a CDN DC
+     * CDN DCs know nothing about the session, so each request carries its own initConnection
+     */
+    async invoke<R extends Api.AnyRequest>(dcId: number, request: R): Promise<R['__response']> {
+        const sender = await this.getSender(dcId);
+        const init = this.client._initRequest;
+
+        return await withTimeout(this.client.invokeWithSender(new Api.InvokeWithLayer({
+            layer: LAYER,
+            query: new Api.InitConnection({
+                apiId: init.apiId,
+                deviceModel: init.deviceModel,
+                systemVersion: init.systemVersion,
+                appVersion: init.appVersion,
+                systemLangCode: init.systemLangCode,
+                langPack: init.langPack,
+                langCode: init.langCode,
+                proxy: init.proxy,
+                query: request,
+            }),
+        }), sender), this.timeout, () => {
+            if (this.logger) {
+                this.logger.warn(`CDN DC ${dcId} got no response in ${this.timeout / 1000}s, reconnecting`);
+            }
+
+            // Abandon the hung request with its connection, the next request connects again
+            this.senders.delete(dcId);
+            sender.disconnect().catch(() => {});
+
+            return new DownloadStalledError(`${request.className} on CDN DC ${dcId} timed out after ${this.timeout / 1000}s`);
+        }) as R['__response'];
+    }
+
+    /**
+     * Get (or open) the connection to a CDN DC
+     */
+    private getSender(dcId: number): Promise<MTProtoSender> {
+        if (!this.senders.has(dcId)) {
+            this.senders.set(dcId, this.connect(dcId).catch(error => {
+                this.senders.delete(dcId);
+                throw error;
+            }));
+        }
+
+        return this.senders.get(dcId);
+    }
+
+    private async connect(dcId: number): Promise<MTProtoSender> {
+        await this.loadKeys();
+
+        const dcOption = (await this.getDcOptions()).find(v => v.cdn && v.id === dcId && !v.ipv6);
+        if (!dcOption) {
+            throw new Error(`Cannot find the address of CDN DC ${dcId}`);
+        }
+
+        if (this.logger) {
+            this.logger.info(`Connecting to CDN DC ${dcId} (${dcOption.ipAddress}:${dcOption.port})`);
+        }
+
+        // A fresh auth key is generated against the CDN public key on connect
+        const sender = new MTProtoSender(undefined, {
+            logger: this.client._log,
+            dcId,
+            retries: this.client._connectionRetries,
+            reconnectRetries: this.client._reconnectRetries,
+            delay: this.client._retryDelay,
+            autoReconnect: this.client._autoReconnect,
+            connectTimeout: this.client._timeout,
+            authKeyCallback: undefined,
+            isMainSender: false,
+            onConnectionBreak: () => this.senders.delete(dcId),
+            client: this.client,
+            securityChecks: true,
+            _exportedSenderPromises: new Map(),
+        });
+
+        await sender.connect(new this.client._connection({
+            ip: dcOption.ipAddress,
+            port: dcOption.port,
+            dcId,
+            loggers: this.client._log,
+            proxy: this.client['_proxy'],
+            socket: this.client.networkSocket,
+            testServers: this.client.testServers,
+        }), false);
+
+        return sender;
+    }
+
+    /**
+     * gramjs doesn't sleep on FLOOD_WAIT itself, the shared handling has to wait it out
+     */
+    private withFloodControl<T>(request: () => Promise<T>): Promise<T> {
+        return this.flood ? this.flood.run('download', request) : request();
+    }
+
+    private getDcOptions(): Promise<Api.TypeDcOption[]> {
+        if (!this.dcOptions) {
+            this.dcOptions = this.withFloodControl(() => this.client.invoke(new Api.help.GetConfig())).then(config => config.dcOptions, error => {
+                this.dcOptions = null;
+                throw error;
+            });
+        }
+
+        return this.dcOptions;
+    }
+
+    /**
+     * Register the CDN RSA public keys so the authenticator accepts their fingerprints
+     */
+    private loadKeys(): Promise<void> {
+        if (!this.keysLoaded) {
+            this.keysLoaded = this.withFloodControl(() => this.client.invoke(new Api.help.GetCdnConfig())).then(config => {
+                for (const publicKey of config.publicKeys) {
+                    const jwk = createPublicKey(publicKey.publicKey).export({ format: 'jwk' });
+                    const n = Buffer.from(jwk.n, 'base64url');
+                    const e = Buffer.from(jwk.e, 'base64url');
+
+                    // fingerprint: lower 64 bits of sha1(n, e) serialized as TL bytes
+                    const digest = createHash('sha1').update(Buffer.concat([serializeBytes(n), serializeBytes(e)])).digest();
+                    const fingerprint = readBigIntFromBuffer(digest.subarray(digest.length - 8), true, true);
+
+                    _serverKeys.set(fingerprint.toString(), {
+                        n: readBigIntFromBuffer(n, false, false),
+                        e: readBigIntFromBuffer(e, false, false).toJSNumber(),
+                    });
+                }
+            }, error => {
+                this.keysLoaded = null;
+                throw error;
+            });
+        }
+
+        return this.keysLoaded;
+    }
+}
+
+/**
+ * A single file being served by a CDN DC
+ */
+export class CdnFile {
+    private verifier: HashVerifier;
+
+    /**
+     * @param requestLimit Bytes per GetCdnFile request, must satisfy the upload.getFile alignment rules
+     * @param totalSize Size of the whole file
+     */
+    constructor(
+        private manager: CdnManager,
+        private redirect: Api.upload.FileCdnRedirect,
+        private invokeOrigin: OriginInvoker,
+        private requestLimit: number,
+        totalSize: number,
+        private logger?: Logger
+    ) {
+        // CDN data is only trusted once it matches the hashes from the origin DC
+        this.verifier = new HashVerifier(offset => invokeOrigin(new Api.upload.GetCdnFileHashes({
+            fileToken: redirect.fileToken,
+            offset: bigInt(offset),
+        })), totalSize, true, logger);
+        this.verifier.add(redirect.fileHashes);
+    }
+
+    get dcId() {
+        return this.redirect.dcId;
+    }
+
+    /**
+     * Download, decrypt and verify a chunk
+     */
+    async getChunk(offset: number, limit: number): Promise<Buffer> {
+        // CDN requests have no `precise` flag, always ask for an aligned block and trim it
+        for (let reuploads = 0; ; reuploads++) {
+            const result = await this.manager.invoke(this.redirect.dcId, new Api.upload.GetCdnFile({
+                fileToken: this.redirect.fileToken,
+                offset: bigInt(offset),
+                limit: Math.max(this.requestLimit, limit),
+            }));
+
+            if (result instanceof Api.upload.CdnFileReuploadNeeded) {
+                if (reuploads >= 3) {
+                    throw new Error(`CDN DC ${this.dcId} still missing chunk at offset ${offset} after reupload`);
+                }
+
+                if (this.logger) {
+                    this.logger.info(`CDN DC ${this.dcId} needs a reupload for offset ${offset}`);
+                }
+
+                // The CDN doesn't have the file yet, ask the origin DC to push it there
+                this.verifier.add(await this.invokeOrigin(new Api.upload.ReuploadCdnFile({
+                    fileToken: this.redirect.fileToken,
+                    requestToken: result.requestToken,
+                })));
+                continue;
+            }
+
+            const bytes = this.decrypt(result.bytes, offset).subarray(0, limit);
+
+            await this.verifier.verify(bytes, offset);
+
+            return bytes;
+        }
+    }
+
+    /**
+     * Check whether an error means the CDN file token has expired and a new redirect is needed
+     */
+    static isTokenError(error: unknown): boolean {
+        return error instanceof RPCError && error.errorMessage === 'FILE_TOKEN_INVALID';
+    }
+
+    private decrypt(bytes: Buffer, offset: number): Buffer {
+        // The last 4 bytes of the IV hold the block counter (offset / 16) in big endian
+        const iv = Buffer.from(this.redirect.encryptionIv);
+        iv.writeUInt32BE(Math.floor(offset / 16) >>> 0, iv.length - 4);
+
+        const decipher = createDecipheriv('aes-256-ctr', this.redirect.encryptionKey, iv);
+
+        return Buffer.concat([decipher.update(bytes), decipher.final()]);
+    }
+}
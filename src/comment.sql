@@ -0,0 +1,20 @@
+PRAGMA foreign_keys = false;
+
+-- ----------------------------
+-- Table structure for comment
+-- ----------------------------
+DROP TABLE IF EXISTS "comment";
+CREATE TABLE "comment" (
+  "channelId" TEXT NOT NULL,
+  "postId"    INTEGER NOT NULL,
+  "lastId"    INTEGER NOT NULL,
+  "maxId"     INTEGER NOT NULL,
+  "date"      DATE NOT NULL,
+  CONSTRAINT "post" UNIQUE ("channelId" ASC, "postId" ASC)
+);
+
+-- ----------------------------
+-- Records of comment
+-- ----------------------------
+
+PRAGMA foreign_keys = true;
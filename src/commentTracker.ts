@@ -0,0 +1,137 @@
+import { Statement } from 'better-sqlite3';
+import { Api, TelegramClient } from 'telegram';
+import { Logger } from 'telegram/extensions/Logger';
+
+import { Db } from './db';
+import { FloodController } from './floodController';
+
+/**
+ * Comment Tracker
+ * Keeps a cursor per channel post in the `comment` table, so comments are fetched
+ * page by page and only once, and new comments on older posts are picked up later
+ *
+ * - `lastId`: newest comment of the post that has been archived
+ * - `maxId`: newest comment of the post Telegram reported
+ */
+export class CommentTracker {
+    private trackStatement: Statement;
+    private updateStatement: Statement;
+    private cursorStatement: Statement;
+    private advanceStatement: Statement;
+
+    private static readonly PAGE_SIZE = 100;
+
+    constructor(private client: TelegramClient, private db: Db, private flood: FloodController, private logger?: Logger) {
+        this.trackStatement = db.prepare("INSERT OR IGNORE INTO comment (channelId, postId, lastId, maxId, date) VALUES (?, ?, 0, 0, ?)");
+        this.updateStatement = db.prepare("UPDATE comment SET maxId = MAX(maxId, ?) WHERE channelId = ? AND postId = ?");
+        this.cursorStatement = db.prepare("SELECT lastId FROM comment WHERE channelId = ? AND postId = ?");
+        this.advanceStatement = db.prepare("UPDATE comment SET lastId = MAX(lastId, ?) WHERE channelId = ? AND postId = ?");
+    }
+
+    /**
+     * Comments of a post newer than its cursor
+     * @returns Oldest comment first
+     */
+    async fetchComments(channelId: string, post: Api.Message): Promise<Api.Message[]> {
+        this.track(channelId, post);
+
+        if (!post.replies) return [];
+
+        // Every comment was deleted
+        if (!post.replies.replies) {
+            this.advance(channelId, post.id, post.replies.maxId || 0);
+            return [];
+        }
+
+        const cursor = (this.cursorStatement.get(channelId, post.id) as { lastId: number }).lastId;
+
+        if (post.replies.maxId && post.replies.maxId <= cursor) return [];
+
+        const comments: Api.Message[] = [];
+        let offsetId = 0;
+
+        // Pages go from the newest comment back to the cursor
+        while (true) {
+            const result = await this.flood.run('history', () => this.client.invoke(
+                new Api.messages.GetReplies({
+                    peer: post.peerId,
+                    msgId: post.id,
+                    offsetId: offsetId,
+                    limit: CommentTracker.PAGE_SIZE,
+                })
+            )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+            // Service messages are kept too, so the cursor moves past them
+            const page = result.messages.filter(v => v.id > cursor) as Api.Message[];
+
+            comments.push(...page);
+
+            if (!result.messages.length || result.messages.some(v => v.id <= cursor)) break;
+
+            offsetId = result.messages[result.messages.length - 1].id;
+        }
+
+        // The newest comments were deleted, `maxId` still points at them and would never be reached
+        if (!comments.length) {
+            this.advance(channelId, post.id, post.replies.maxId || 0);
+        }
+
+        if (comments.length && this.logger) {
+            this.logger.debug(`Fetched ${comments.length} new comments of post ${post.id} in channel ${channelId}`);
+        }
+
+        return comments.reverse();
+    }
+
+    /**
+     * Remember that a comment of a post has been archived
+     */
+    advance(channelId: string, postId: number, commentId: number) {
+        this.advanceStatement.run(commentId, channelId, postId);
+    }
+
+    /**
+     * Re-read the tracked posts of a channel to find the ones that got new comments
+     * @param minDate Only posts since this Unix timestamp are checked
+     */
+    async findUpdatedPosts(channelId: string, minDate: number): Promise<Api.Message[]> {
+        const rows = this.db.prepareGetAll(
+            "SELECT postId, lastId FROM comment WHERE channelId = ? AND date >= ? ORDER BY postId",
+            channelId, minDate
+        ) as { postId: number, lastId: number }[];
+
+        const cursors = new Map(rows.map(v => [v.postId, v.lastId]));
+        const updated: Api.Message[] = [];
+
+        for (let i = 0; i < rows.length; i += CommentTracker.PAGE_SIZE) {
+            const ids = rows.slice(i, i + CommentTracker.PAGE_SIZE).map(v => new Api.InputMessageID({ id: v.postId }));
+
+            const result = await this.flood.run('history', () => this.client.invoke(
+                new Api.channels.GetMessages({
+                    channel: channelId,
+                    id: ids,
+                })
+            )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+            for (const post of result.messages) {
+                if (!(post instanceof Api.Message) || !post.replies) continue;
+
+                this.updateStatement.run(post.replies.maxId || 0, channelId, post.id);
+
+                if (post.replies.maxId > cursors.get(post.id)) {
+                    updated.push(post);
+                }
+            }
+        }
+
+        return updated;
+    }
+
+    private track(channelId: string, post: Api.Message) {
+        this.trackStatement.run(channelId, post.id, post.date || 0);
+
+        if (post.replies && post.replies.maxId) {
+            this.updateStatement.run(post.replies.maxId, channelId, post.id);
+        }
+    }
+}
@@ -0,0 +1,20 @@
+PRAGMA foreign_keys = false;
+
+-- ----------------------------
+-- Table structure for content
+-- ----------------------------
+DROP TABLE IF EXISTS "content";
+CREATE TABLE "content" (
+  "hash"      TEXT NOT NULL,
+  "size"      INTEGER NOT NULL,
+  "savePath"  TEXT NOT NULL,
+  "channelId" TEXT NOT NULL,
+  "date"      DATE NOT NULL,
+  CONSTRAINT "hash" UNIQUE ("hash" ASC)
+);
+
+-- ----------------------------
+-- Records of content
+-- ----------------------------
+
+PRAGMA foreign_keys = true;
@@ -48,6 +48,43 @@ export class Db {
 
             this._db.exec(sql);
         }
+
+        // Edit/delete events, tables created by older versions lack these columns
+        if (!this.columnExists('message', 'version')) {
+            this._db.exec(`ALTER TABLE "message" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 0`);
+            this._db.exec(`ALTER TABLE "message" ADD COLUMN "event" TEXT NOT NULL DEFAULT ''`);
+            this._db.exec(`ALTER TABLE "message" ADD COLUMN "eventDate" DATE NOT NULL DEFAULT 0`);
+        }
+
+        if (!this.tableExists('verification')) {
+            const sql = readFileSync(__dirname + '/verification.sql', 'utf-8');
+
+            this._db.exec(sql);
+        }
+
+        if (!this.tableExists('content')) {
+            const sql = readFileSync(__dirname + '/content.sql', 'utf-8');
+
+            this._db.exec(sql);
+        }
+
+        if (!this.tableExists('duplicate')) {
+            const sql = readFileSync(__dirname + '/duplicate.sql', 'utf-8');
+
+            this._db.exec(sql);
+        }
+
+        if (!this.tableExists('media')) {
+            const sql = readFileSync(__dirname + '/media.sql', 'utf-8');
+
+            this._db.exec(sql);
+        }
+
+        if (!this.tableExists('comment')) {
+            const sql = readFileSync(__dirname + '/comment.sql', 'utf-8');
+
+            this._db.exec(sql);
+        }
     }
 
     public tableExists(table: string) {
@@ -56,6 +93,10 @@ export class Db {
         })?.['count'];
     }
 
+    public columnExists(table: string, column: string) {
+        return (this.prepareGetAll(`PRAGMA table_info("${table}")`) as { name: string }[]).some(v => v.name == column);
+    }
+
     public dropTable(table: string) {
         this._db.exec(`DROP TABLE IF EXISTS "${table}"`);
     }
@@ -0,0 +1,153 @@
+import { Statement } from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { Logger } from 'telegram/extensions/Logger';
+
+import { Db } from './db';
+import { StorageSink } from './storageSink';
+
+/**
+ * Deduplicator
+ * Keeps a content hash → savePath index of the archive, so a file reposted
+ * in several channels is only stored once
+ *
+ * Forwarded messages keep the Telegram document/photo id, which is indexed as well,
+ * so these are recognized before any byte is downloaded
+ *
+ * - `hardlink`: the duplicate becomes a hardlink to the archived copy
+ * - `symlink`: the duplicate becomes a relative symlink to the archived copy
+ * - `skip`: the duplicate is not stored at all, its message points to the archived copy
+ *
+ * Storages without links (e.g. S3) always fall back to `skip`
+ */
+
+export type DeduplicationMode = 'off' | 'hardlink' | 'symlink' | 'skip';
+
+export interface Duplicate {
+    // Key of the archived copy
+    duplicateOf: string;
+    // How the duplicate was stored, `skip` if it wasn't stored at all
+    mode: DeduplicationMode;
+}
+
+export interface DeduplicationSavings {
+    channelId: string;
+    files: number;
+    bytes: number;
+}
+
+export class Deduplicator {
+    private findStatement: Statement;
+    private indexStatement: Statement;
+    private recordStatement: Statement;
+    private findMediaStatement: Statement;
+    private indexMediaStatement: Statement;
+
+    constructor(private db: Db, private sink: StorageSink, private mode: DeduplicationMode, private logger?: Logger) {
+        this.findStatement = db.prepare("SELECT savePath FROM content WHERE hash = ?");
+        this.indexStatement = db.prepare("INSERT OR REPLACE INTO content (hash, size, savePath, channelId, date) VALUES (?, ?, ?, ?, ?)");
+        this.recordStatement = db.prepare("INSERT INTO duplicate (channelId, savePath, duplicateOf, size, mode, date) VALUES (?, ?, ?, ?, ?, ?)");
+        this.findMediaStatement = db.prepare("SELECT savePath FROM media WHERE mediaId = ?");
+        this.indexMediaStatement = db.prepare("INSERT OR REPLACE INTO media (mediaId, savePath, channelId, date) VALUES (?, ?, ?, ?)");
+    }
+
+    /**
+     * Look up a Telegram document/photo before downloading it
+     * @param mediaId Stable id of the document/photo, e.g. `document:123`
+     * @param size Size of the file, for the savings report
+     * @returns The archived copy if the media was downloaded before (now linked or referenced), otherwise null
+     */
+    async reuseMedia(mediaId: string, key: string, channelId: string, size: number): Promise<Duplicate | null> {
+        const existing = this.findMediaStatement.get(mediaId) as { savePath: string } | undefined;
+
+        if (!existing || existing.savePath === key || !await this.sink.exists(existing.savePath)) {
+            return null;
+        }
+
+        const mode = await this.store(existing.savePath, key);
+
+        this.record(channelId, key, existing.savePath, size, mode);
+
+        return { duplicateOf: existing.savePath, mode };
+    }
+
+    /**
+     * Remember where a Telegram document/photo has been archived
+     */
+    indexMedia(mediaId: string, key: string, channelId: string) {
+        this.indexMediaStatement.run(mediaId, key, channelId, Math.floor(Date.now() / 1000));
+    }
+
+    /**
+     * Check a completed download against the archive before it is committed to the sink
+     * @param localPath Where the download currently is
+     * @param key Storage key the file is about to be committed as
+     * @returns The archived copy if the file is a duplicate (the local file is gone then),
+     *          null if the file is new and has been indexed
+     */
+    async deduplicate(localPath: string, key: string, channelId: string): Promise<Duplicate | null> {
+        const { size } = await fs.stat(localPath);
+        const hash = await hashFile(localPath);
+        const now = Math.floor(Date.now() / 1000);
+
+        const existing = this.findStatement.get(hash) as { savePath: string } | undefined;
+
+        // The archived copy may have been deleted since, the new file takes its place then
+        if (existing && existing.savePath !== key && await this.sink.exists(existing.savePath)) {
+            await fs.rm(localPath, { force: true });
+
+            const mode = await this.store(existing.savePath, key);
+
+            this.record(channelId, key, existing.savePath, size, mode);
+
+            return { duplicateOf: existing.savePath, mode };
+        }
+
+        this.indexStatement.run(hash, size, key, channelId, now);
+
+        return null;
+    }
+
+    /**
+     * Bytes saved by deduplication, per channel
+     */
+    getSavings(): DeduplicationSavings[] {
+        return this.db.prepareGetAll(
+            "SELECT channelId, COUNT(*) AS files, SUM(size) AS bytes FROM duplicate GROUP BY channelId ORDER BY bytes DESC"
+        ) as DeduplicationSavings[];
+    }
+
+    /**
+     * Store a duplicate as a link to the archived copy, or not at all
+     * @returns Mode actually applied
+     */
+    private async store(existingKey: string, key: string): Promise<DeduplicationMode> {
+        if (this.mode != 'skip' && await this.sink.link(existingKey, key, this.mode == 'symlink')) {
+            return this.mode;
+        }
+
+        return 'skip';
+    }
+
+    private record(channelId: string, key: string, existingKey: string, size: number, mode: DeduplicationMode) {
+        this.recordStatement.run(channelId, key, existingKey, size, mode, Math.floor(Date.now() / 1000));
+
+        if (this.logger) {
+            this.logger.info(`${key} is a duplicate of ${existingKey} (${mode}, ${size} bytes saved)`);
+        }
+    }
+}
+
+/**
+ * SHA-256 of a file, hex encoded
+ */
+function hashFile(path: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const hash = createHash('sha256');
+
+        createReadStream(path)
+            .on('data', chunk => hash.update(chunk))
+            .on('error', reject)
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import { Logger } from 'telegram/extensions/Logger';
+
+/**
+ * Disk Space Guard
+ * Pauses downloading while the volume holding the data folder is (about to be) full
+ *
+ * Every file waits before it starts until its expected size fits above the minimum free space.
+ * Once one file has to wait no other file starts either, so smaller files can't use up the space
+ * freed for it, and all workers continue together once the largest waiting file fits
+ */
+
+export interface DiskSpaceStatus {
+    paused: boolean;
+    // Free bytes at the last check
+    free: number;
+    // Free bytes the waiting files need
+    required: number;
+}
+
+export class DiskSpaceGuard {
+    private pause: Promise<void> | null = null;
+    private free = 0;
+    private required = 0;
+
+    private static readonly CHECK_INTERVAL = 30 * 1000;
+
+    /**
+     * @param dir Folder on the volume to watch
+     * @param minFreeBytes Free bytes to keep, 0 to disable the guard
+     */
+    constructor(private dir: string, private minFreeBytes: number, private logger?: Logger) {
+        // `fs.statfs` only exists since Node 18.15
+        if (this.minFreeBytes > 0 && typeof fs.statfs != 'function') {
+            this.minFreeBytes = 0;
+
+            if (this.logger) {
+                this.logger.warn(`Free disk space can't be checked on Node ${process.version}, the disk space guard is disabled`);
+            }
+        }
+    }
+
+    /**
+     * Wait until a file of the given size fits on the volume
+     * @param expectedBytes Size of the file about to be downloaded, 0 if unknown
+     */
+    async waitForSpace(expectedBytes: number): Promise<void> {
+        if (!(this.minFreeBytes > 0)) return;
+
+        const required = this.minFreeBytes + expectedBytes;
+
+        while (this.pause || !await this.hasSpace(required)) {
+            this.required = Math.max(this.required, required);
+
+            if (!this.pause) {
+                if (this.logger) {
+                    this.logger.warn(`Only ${this.free} bytes free in ${this.dir}, downloading paused until ${required} bytes are available`);
+                }
+
+                this.pause = this.waitUntilFree();
+            }
+
+            await this.pause;
+        }
+    }
+
+    getStatus(): DiskSpaceStatus {
+        return { paused: !!this.pause, free: this.free, required: this.required };
+    }
+
+    /**
+     * Poll until the largest waiting file fits, `required` grows while files join the pause
+     */
+    private async waitUntilFree(): Promise<void> {
+        do {
+            await new Promise(resolve => setTimeout(resolve, DiskSpaceGuard.CHECK_INTERVAL));
+        } while (!await this.hasSpace(this.required));
+
+        this.pause = null;
+        this.required = 0;
+
+        if (this.logger) {
+            this.logger.info(`${this.free} bytes free in ${this.dir}, downloading resumed`);
+        }
+    }
+
+    private async hasSpace(required: number): Promise<boolean> {
+        try {
+            const stats = await fs.statfs(this.dir);
+
+            this.free = stats.bavail * stats.bsize;
+        } catch (error) {
+            // Can't tell, don't block downloading on it
+            if (this.logger) {
+                this.logger.warn(`Failed to check free space of ${this.dir}: ${error}`);
+            }
+            return true;
+        }
+
+        return this.free >= required;
+    }
+}
@@ -1,10 +1,26 @@
-import { createWriteStream, promises as fs } from 'fs';
+import { createWriteStream, Dirent, promises as fs } from 'fs';
+import { dirname } from 'path';
 import { Api, TelegramClient } from 'telegram';
 import { Logger } from 'telegram/extensions/Logger';
-import { FileMigrateError } from 'telegram/errors';
-import { MTProtoSender } from 'telegram/network';
+import { FileMigrateError, RPCError } from 'telegram/errors';
 import bigInt from 'big-integer';
 
+import { BandwidthLimiter } from './bandwidthLimiter';
+import { CdnFile, CdnManager } from './cdnManager';
+import { Deduplicator, Duplicate } from './deduplicator';
+import { DownloadStalledError } from './errors';
+import { FloodController } from './floodController';
+import { DataDir } from './functions';
+import { HashVerifier } from './hashVerifier';
+import { Semaphore } from './semaphore';
+import { SenderPool } from './senderPool';
+import { LocalStorageSink, StorageSink } from './storageSink';
+
+/**
+ * Suffix of files that are still being downloaded
+ */
+export const PART_SUFFIX = '.part';
+
 /**
  * Configuration for accelerated download
  */
@@ -13,6 +29,25 @@ export interface DownloadConfig {
     downloadThreads: number;
     chunkSize: number;
     maxRetries: number;
+    verifyDownloads: boolean;
+    // Persistent connections per DC shared by all downloads
+    connectionsPerDc: number;
+    // Concurrent chunk requests per DC across all downloads
+    maxRequestsPerDc: number;
+    // Seconds to wait for a single chunk before reconnecting and retrying, 0 to wait forever
+    chunkTimeout: number;
+    // Seconds a file may go without any progress before it is cancelled, 0 to wait forever
+    fileTimeout: number;
+}
+
+/**
+ * Result of downloading a file
+ */
+export interface DownloadResult {
+    // Whether every chunk matched the SHA-256 hashes published by Telegram
+    verified: boolean;
+    // Set when the file turned out to be a duplicate of an archived one
+    duplicate?: Duplicate;
 }
 
 /**
@@ -20,6 +55,40 @@ export interface DownloadConfig {
  */
 export type ProgressCallback = (downloaded: bigInt.BigInteger, total: bigInt.BigInteger) => void;
 
+/**
+ * Refetch the message owning a media to obtain a fresh file reference
+ */
+export type MediaRefresher = () => Promise<Api.TypeMessageMedia>;
+
+/**
+ * How many times a single file may refresh its file reference
+ */
+const MAX_REFERENCE_REFRESHES = 3;
+
+/**
+ * Check whether an error means the file reference has to be refreshed
+ * (FILE_REFERENCE_EXPIRED, FILE_REFERENCE_INVALID, ...)
+ */
+function isFileReferenceError(error: unknown): boolean {
+    return error instanceof RPCError && `${error.errorMessage}`.startsWith('FILE_REFERENCE_');
+}
+
+/**
+ * Stable id of the document/photo of a media, the same for every forward of it
+ * @returns e.g. `document:123`, null for other media
+ */
+function getMediaId(media: Api.TypeMessageMedia): string | null {
+    if (media instanceof Api.MessageMediaDocument && media.document instanceof Api.Document) {
+        return `document:${media.document.id}`;
+    }
+
+    if (media instanceof Api.MessageMediaPhoto && media.photo instanceof Api.Photo) {
+        return `photo:${media.photo.id}`;
+    }
+
+    return null;
+}
+
 /**
  * Chunk download task
  */
@@ -29,6 +98,31 @@ interface ChunkTask {
     retries: number;
 }
 
+/**
+ * Per-file download state shared by all chunk workers
+ */
+interface FileSession {
+    location: Api.TypeInputFileLocation;
+    totalSize: number;
+    // DC the file lives on (may change on FILE_MIGRATE), the home DC if unknown
+    dcId?: number;
+    // Set once the file has been redirected to a CDN DC
+    cdn?: CdnFile;
+    // Set when hash verification is enabled and the file is a document
+    verifier?: HashVerifier;
+    // Record progress for the inactivity watchdog
+    touch?: () => void;
+}
+
+/**
+ * Sidecar state of a partial download (`<file>.part.json`)
+ */
+interface ResumeState {
+    size: number;
+    chunkSize: number;
+    completed: number[];
+}
+
 /**
  * Accelerated Downloader for Telegram media files
  * Uses multiple concurrent connections to download file chunks in parallel
@@ -37,11 +131,170 @@ export class AcceleratedDownloader {
     private client: TelegramClient;
     private config: DownloadConfig;
     private logger?: Logger;
+    private limiter?: BandwidthLimiter;
+    private flood?: FloodController;
+    private sink: StorageSink;
+    private dedup?: Deduplicator;
+    private cdn: CdnManager;
+    private pool: SenderPool;
 
-    constructor(client: TelegramClient, config: DownloadConfig, logger?: Logger) {
+    constructor(client: TelegramClient, config: DownloadConfig, logger?: Logger, limiter?: BandwidthLimiter, flood?: FloodController, sink?: StorageSink, dedup?: Deduplicator) {
         this.client = client;
         this.config = config;
         this.logger = logger;
+        this.limiter = limiter;
+        this.flood = flood;
+        this.sink = sink || new LocalStorageSink(DataDir());
+        this.dedup = dedup;
+        this.cdn = new CdnManager(client, logger, config.chunkTimeout * 1000, flood);
+        this.pool = new SenderPool(client, config.connectionsPerDc, config.maxRequestsPerDc, logger, flood);
+    }
+
+    /**
+     * Run a file request through the shared FLOOD_WAIT handling
+     */
+    private async withFloodControl<T>(request: () => Promise<T>): Promise<T> {
+        return this.flood ? await this.flood.run('download', request) : await request();
+    }
+
+    /**
+     * Number of concurrent chunk requests allowed right now
+     */
+    private getThreadLimit(threads: number): number {
+        return this.flood ? this.flood.getLimit(threads) : threads;
+    }
+
+    /**
+     * Create the shared state for downloading one file
+     */
+    private async createFileSession(location: Api.TypeInputFileLocation, totalSize: number, dcId: number | undefined): Promise<FileSession> {
+        const session: FileSession = {
+            location,
+            totalSize,
+            dcId,
+        };
+
+        // Telegram only publishes hashes for documents
+        if (this.config.verifyDownloads && location instanceof Api.InputDocumentFileLocation) {
+            session.verifier = new HashVerifier(offset => this.invokeOrigin(session, new Api.upload.GetFileHashes({
+                location: session.location,
+                offset: bigInt(offset),
+            })), totalSize, false, this.logger);
+        }
+
+        return session;
+    }
+
+    /**
+     * Invoke a request on the DC the file lives on
+     */
+    private invokeOrigin<R extends Api.AnyRequest>(session: FileSession, request: R): Promise<R['__response']> {
+        return this.withFloodControl(() => this.pool.invoke(session.dcId, request, this.config.chunkTimeout * 1000));
+    }
+
+    /**
+     * Request a chunk and check it against the file hashes if verification is enabled
+     * @throws Error if the chunk doesn't match, so the caller downloads it again
+     */
+    private async requestVerifiedChunk(session: FileSession, offset: number, limit: number): Promise<Buffer> {
+        const bytes = await this.requestChunk(session, offset, limit);
+
+        if (session.verifier) {
+            await session.verifier.verify(bytes, offset);
+        }
+
+        return bytes;
+    }
+
+    /**
+     * Request a single chunk, following a CDN redirect if the file is served by a CDN DC
+     * @returns Bytes of the chunk
+     */
+    private async requestChunk(session: FileSession, offset: number, limit: number): Promise<Buffer> {
+        await this.throttle(limit);
+
+        // Waiting for bandwidth is not a stall
+        if (session.touch) {
+            session.touch();
+        }
+
+        // Invoke on the DC the file lives on (also used for CDN hashes and reuploads)
+        const invokeOrigin = <R extends Api.AnyRequest>(request: R) => this.invokeOrigin(session, request);
+
+        let cdn = session.cdn;
+
+        if (!cdn) {
+            const result = await invokeOrigin(new Api.upload.GetFile({
+                location: session.location,
+                offset: bigInt(offset),
+                limit: limit,
+                precise: true,
+                cdnSupported: true,
+            }));
+
+            if (result instanceof Api.upload.File) {
+                return result.bytes;
+            }
+
+            if (!(result instanceof Api.upload.FileCdnRedirect)) {
+                throw new Error(`Unexpected response for chunk at offset ${offset}`);
+            }
+
+            // First redirect wins, concurrent chunks share the same CDN file
+            if (!session.cdn) {
+                if (this.logger) {
+                    this.logger.info(`File redirected to CDN DC ${result.dcId}`);
+                }
+                session.cdn = new CdnFile(this.cdn, result, invokeOrigin, this.config.chunkSize, session.totalSize, this.logger);
+            }
+            cdn = session.cdn;
+        }
+
+        try {
+            return await this.withFloodControl(() => this.pool.schedule(cdn.dcId, () => cdn.getChunk(offset, limit)));
+        } catch (error) {
+            // CDN token expired, the next attempt asks the origin DC for a new redirect
+            if (CdnFile.isTokenError(error) && session.cdn === cdn) {
+                session.cdn = undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Watch a download for inactivity
+     * `onStall` is called once when no progress was made for `fileTimeout` seconds
+     * @returns `touch` to record progress, `stop` once the download has settled
+     */
+    private watchInactivity(label: string, onStall: (error: DownloadStalledError) => void) {
+        const timeout = this.config.fileTimeout * 1000;
+        let lastActivity = Date.now();
+
+        const timer = timeout > 0 ? setInterval(() => {
+            // Waiting out FLOOD_WAIT is not a stall
+            if (this.flood && this.flood.getStatus().paused.some(v => v.scope == 'download')) {
+                lastActivity = Date.now();
+            } else if (Date.now() - lastActivity > timeout) {
+                clearInterval(timer);
+                onStall(new DownloadStalledError(`No progress on ${label} for ${this.config.fileTimeout}s`));
+            }
+        }, 1000) : null;
+
+        return {
+            touch: () => {
+                lastActivity = Date.now();
+            },
+            stop: () => clearInterval(timer),
+        };
+    }
+
+    /**
+     * Wait for the global bandwidth limiter before transferring bytes
+     */
+    private async throttle(bytes: number): Promise<void> {
+        if (this.limiter && bytes > 0) {
+            await this.limiter.acquire(bytes);
+        }
     }
 
     /**
@@ -133,17 +386,16 @@ export class AcceleratedDownloader {
                 return null;
             }
 
-            // Get the type string for thumbSize - PhotoSizeProgressive doesn't have a 'type' property
-            let thumbSize = '';
-            if (largestSize instanceof Api.PhotoSize) {
-                thumbSize = largestSize.type || '';
+            // Both size kinds name themselves by `type` (`y`, `w`...), an empty thumbSize is not a valid location
+            if (!largestSize.type) {
+                return null;
             }
 
             const location = new Api.InputPhotoFileLocation({
                 id: photo.id,
                 accessHash: photo.accessHash,
                 fileReference: photo.fileReference,
-                thumbSize: thumbSize,
+                thumbSize: largestSize.type,
             });
 
             return {
@@ -200,14 +452,10 @@ export class AcceleratedDownloader {
         const orderedBuffers: Buffer[] = [];
         let downloadedBytes = 0;
         let nextExpectedOffset = 0;
-        let activeDownloads = 0;
         const maxConcurrent = threads;
+        const requestSlots = new Semaphore(() => this.getThreadLimit(maxConcurrent));
 
-        // Sender for the correct DC (may change if file is on different DC)
-        let sender: MTProtoSender | undefined;
-        if (dcId !== undefined) {
-            sender = await this.client.getSender(dcId);
-        }
+        const session = await this.createFileSession(location, totalSize, dcId);
 
         // Progress tracking
         const updateProgress = () => {
@@ -231,23 +479,12 @@ export class AcceleratedDownloader {
 
         // Download chunks with concurrency control
         const downloadChunk = async (task: ChunkTask): Promise<void> => {
-            activeDownloads++;
             try {
-                const request = new Api.upload.GetFile({
-                    location: location,
-                    offset: bigInt(task.offset),
-                    limit: task.limit,
-                    precise: true,
-                });
+                const bytes = await this.requestVerifiedChunk(session, task.offset, task.limit);
 
-                // Use sender if available (for correct DC), otherwise use default client
-                const result = sender
-                    ? await this.client.invokeWithSender(request, sender)
-                    : await this.client.invoke(request);
-
-                if (result instanceof Api.upload.File) {
-                    buffers[task.offset] = result.bytes;
-                    downloadedBytes += result.bytes.length;
+                if (bytes) {
+                    buffers[task.offset] = bytes;
+                    downloadedBytes += bytes.length;
                     updateProgress();
                     processOrderedChunks();
                 }
@@ -257,9 +494,8 @@ export class AcceleratedDownloader {
                     if (this.logger) {
                         this.logger.info(`File lives in DC ${error.newDc}, switching sender`);
                     }
-                    // Get sender for the correct DC and retry
-                    // Don't decrement activeDownloads here - let finally handle it after retry completes
-                    sender = await this.client.getSender(error.newDc);
+                    // Retry on the correct DC, the slot is kept until the retry completes
+                    session.dcId = error.newDc;
                     return await downloadChunk(task);
                 }
 
@@ -270,24 +506,20 @@ export class AcceleratedDownloader {
                         this.logger.warn(`Chunk at offset ${task.offset} failed, retrying (${task.retries}/${this.config.maxRetries})`);
                     }
                     await this.sleep(1000 * task.retries); // Exponential backoff
-                    // Don't decrement activeDownloads here - let finally handle it after retry completes
                     return await downloadChunk(task);
                 } else {
-                    throw new Error(`Failed to download chunk at offset ${task.offset} after ${this.config.maxRetries} retries: ${error}`);
+                    const message = `Failed to download chunk at offset ${task.offset} after ${this.config.maxRetries} retries: ${error}`;
+                    throw error instanceof DownloadStalledError ? new DownloadStalledError(message) : new Error(message);
                 }
-            } finally {
-                activeDownloads--;
             }
         };
 
         // Download all chunks with concurrency control
         const downloadPromises: Promise<void>[] = [];
         for (const chunk of chunks) {
-            // Wait if we've hit max concurrent downloads
-            while (activeDownloads >= maxConcurrent) {
-                await this.sleep(50);
-            }
-            downloadPromises.push(downloadChunk(chunk));
+            // Wait for a free request slot, retries keep their slot until they complete
+            const release = await requestSlots.acquire();
+            downloadPromises.push(downloadChunk(chunk).finally(release));
         }
 
         // Wait for all downloads to complete
@@ -302,95 +534,327 @@ export class AcceleratedDownloader {
         return finalBuffer;
     }
 
+    /**
+     * Download file into the storage sink
+     *
+     * The file is downloaded to the sink's local path (resumable like `downloadMediaToFile`)
+     * and only committed to the sink once it is complete
+     *
+     * With deduplication, a document/photo archived before is linked instead of downloaded again
+     * @param key Path relative to the archive root
+     * @param channelId Channel the file belongs to, for the deduplication report
+     */
+    async downloadMediaToSink(
+        media: Api.TypeMessageMedia,
+        key: string,
+        progressCallback?: ProgressCallback,
+        refreshMedia?: MediaRefresher,
+        channelId: string = ''
+    ): Promise<DownloadResult> {
+        const mediaId = getMediaId(media);
+
+        if (this.dedup && mediaId) {
+            const fileInfo = this.getFileInfo(media);
+            const duplicate = await this.dedup.reuseMedia(mediaId, key, channelId, fileInfo ? fileInfo.size : 0);
+
+            if (duplicate) {
+                return { verified: false, duplicate };
+            }
+        }
+
+        const localPath = this.sink.localPath(key);
+
+        await fs.mkdir(dirname(localPath), { recursive: true });
+
+        const result = await this.downloadMediaToFile(media, localPath, progressCallback, refreshMedia);
+
+        if (this.dedup) {
+            const duplicate = await this.dedup.deduplicate(localPath, key, channelId);
+
+            // Already linked or dropped, nothing left to commit
+            if (duplicate) {
+                if (mediaId) {
+                    this.dedup.indexMedia(mediaId, duplicate.duplicateOf, channelId);
+                }
+                return { ...result, duplicate };
+            }
+        }
+
+        await this.sink.commit(localPath, key);
+
+        if (this.dedup && mediaId) {
+            this.dedup.indexMedia(mediaId, key, channelId);
+        }
+
+        return result;
+    }
+
     /**
      * Download file with streaming to disk (memory-efficient for large files)
+     *
+     * The data is written to `<file>.part` first and only renamed to `filePath`
+     * once its byte count matches the expected size, so an existing file is always complete
      */
     async downloadMediaToFile(
         media: Api.TypeMessageMedia,
         filePath: string,
-        progressCallback?: ProgressCallback
-    ): Promise<void> {
-        // If acceleration is disabled, fall back to standard download
-        if (!this.config.enableDownloadAcceleration) {
-            const result = await this.client.downloadMedia(media, {
-                progressCallback: progressCallback,
-            });
-            const buffer = Buffer.isBuffer(result) ? result : Buffer.from(result as string);
-            await fs.writeFile(filePath, buffer);
-            return;
-        }
+        progressCallback?: ProgressCallback,
+        refreshMedia?: MediaRefresher
+    ): Promise<DownloadResult> {
+        const tempPath = filePath + PART_SUFFIX;
+        let verified = false;
 
         // Get file information
         const fileInfo = this.getFileInfo(media);
-        if (!fileInfo) {
-            // Fall back to standard download
-            const result = await this.client.downloadMedia(media, {
-                progressCallback: progressCallback,
+
+        /**
+         * Use standard download only when acceleration is disabled or the file info is unknown
+         * Small files go through the pooled senders too, a hung request there is dropped with its connection,
+         * while a hung gramjs request keeps its sender and can't be cancelled
+         */
+        if (!this.config.enableDownloadAcceleration || !fileInfo) {
+            // gramjs reports progress per chunk, which also feeds the inactivity watchdog and the bandwidth limiter
+            const download = (target: Api.TypeMessageMedia) => new Promise<string | Buffer>((resolve, reject) => {
+                let stalled = false;
+                let throttled = 0;
+
+                const watchdog = this.watchInactivity(filePath, error => {
+                    stalled = true;
+                    reject(error);
+                });
+
+                this.withFloodControl(() => this.client.downloadMedia(target, {
+                    // gramjs awaits the callback before it requests the next chunk
+                    progressCallback: async (downloaded, total) => {
+                        // Abandoned by the watchdog, stop gramjs from requesting further chunks
+                        if (stalled) {
+                            throw new DownloadStalledError(`Download of ${filePath} was abandoned`);
+                        }
+
+                        const bytes = downloaded.toJSNumber();
+                        await this.throttle(bytes - throttled);
+                        throttled = bytes;
+
+                        // Waiting for bandwidth is not a stall
+                        watchdog.touch();
+                        if (progressCallback) {
+                            progressCallback(downloaded, total);
+                        }
+                    },
+                })).then(resolve, reject).finally(watchdog.stop);
             });
+
+            let result: string | Buffer;
+            try {
+                result = await download(media);
+            } catch (error) {
+                if (!refreshMedia || !isFileReferenceError(error)) throw error;
+
+                if (this.logger) {
+                    this.logger.info(`File reference expired, refetching message for ${filePath}`);
+                }
+                result = await download(await refreshMedia());
+            }
             const buffer = Buffer.isBuffer(result) ? result : Buffer.from(result as string);
-            await fs.writeFile(filePath, buffer);
-            return;
+
+            if (fileInfo) {
+                const session = await this.createFileSession(fileInfo.location, fileInfo.size, fileInfo.dcId);
+
+                if (session.verifier) {
+                    await session.verifier.verify(buffer, 0);
+                    verified = session.verifier.verified;
+                }
+            }
+
+            await fs.writeFile(tempPath, buffer);
+        } else {
+            const { location, size, dcId } = fileInfo;
+
+            const refreshLocation = refreshMedia ? async () => {
+                const freshInfo = this.getFileInfo(await refreshMedia());
+                if (!freshInfo) {
+                    throw new Error(`Refetched message no longer contains the media of ${filePath}`);
+                }
+                return freshInfo.location;
+            } : undefined;
+
+            // Stream to file for large files
+            verified = await this.downloadFileToStream(
+                location,
+                size,
+                dcId,
+                tempPath,
+                progressCallback,
+                refreshLocation
+            );
         }
 
-        const { location, size, dcId } = fileInfo;
+        await this.finalizeDownload(tempPath, filePath, fileInfo ? fileInfo.size : undefined);
 
-        // For small files, use standard download
-        if (size < 1024 * 1024) {
-            const result = await this.client.downloadMedia(media, {
-                progressCallback: progressCallback,
-            });
-            const buffer = Buffer.isBuffer(result) ? result : Buffer.from(result as string);
-            await fs.writeFile(filePath, buffer);
-            return;
+        return { verified };
+    }
+
+    /**
+     * Verify the byte count of a temp file and atomically rename it into place
+     * @param expectedSize Expected size in bytes, skip verification if unknown
+     */
+    private async finalizeDownload(tempPath: string, filePath: string, expectedSize?: number): Promise<void> {
+        const { size } = await fs.stat(tempPath);
+
+        if (expectedSize !== undefined && size !== expectedSize) {
+            // Corrupted beyond resuming, make the next attempt start over
+            await fs.rm(tempPath, { force: true });
+            await fs.rm(tempPath + '.json', { force: true });
+            throw new Error(`Incomplete download of ${filePath}: got ${size} bytes, expected ${expectedSize}`);
         }
 
-        // Stream to file for large files
-        await this.downloadFileToStream(
-            location,
-            size,
-            dcId,
-            filePath,
-            progressCallback
-        );
+        await fs.rename(tempPath, filePath);
+    }
+
+    /**
+     * Load the resume state of a partial download
+     * @returns Offset of the first missing byte (0 if nothing can be resumed)
+     */
+    private async loadResumeState(partPath: string, totalSize: number, chunkSize: number): Promise<number> {
+        try {
+            const state: ResumeState = JSON.parse(await fs.readFile(`${partPath}.json`, 'utf-8'));
+
+            // File or chunk layout changed since the last attempt, start over
+            if (state.size !== totalSize || state.chunkSize !== chunkSize || !Array.isArray(state.completed)) {
+                return 0;
+            }
+
+            const completed = new Set(state.completed);
+            let offset = 0;
+            while (offset < totalSize && completed.has(offset)) {
+                offset += chunkSize;
+            }
+
+            // Never trust the sidecar beyond what actually made it to disk
+            const { size } = await fs.stat(partPath);
+            const onDisk = Math.floor(size / chunkSize) * chunkSize;
+
+            return Math.min(offset, onDisk, totalSize);
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * Check the already downloaded prefix of a part file against the file hashes
+     * @returns false if any chunk doesn't match
+     */
+    private async verifyPartFile(verifier: HashVerifier, partPath: string, length: number, chunkSize: number): Promise<boolean> {
+        const handle = await fs.open(partPath, 'r');
+
+        try {
+            for (let offset = 0; offset < length; offset += chunkSize) {
+                const buffer = Buffer.alloc(Math.min(chunkSize, length - offset));
+                await handle.read(buffer, 0, buffer.length, offset);
+                await verifier.verify(buffer, offset);
+            }
+            return true;
+        } catch {
+            return false;
+        } finally {
+            await handle.close();
+        }
     }
 
     /**
      * Download file directly to stream with concurrent downloads and backpressure handling
      * Most memory-efficient approach for large files
+     *
+     * `<partPath>.json` records the completed chunk offsets, so an interrupted
+     * download resumes from the last contiguous chunk instead of byte zero
+     *
+     * When the file reference expires mid-download, `refreshLocation` is used
+     * to obtain a fresh location and the pending chunks continue with it
      */
     private async downloadFileToStream(
         location: Api.TypeInputFileLocation,
         totalSize: number,
         dcId: number | undefined,
-        filePath: string,
-        progressCallback?: ProgressCallback
-    ): Promise<void> {
-        const writeStream = createWriteStream(filePath);
+        partPath: string,
+        progressCallback?: ProgressCallback,
+        refreshLocation?: () => Promise<Api.TypeInputFileLocation>
+    ): Promise<boolean> {
         const threads = Math.min(this.config.downloadThreads, 8);
         const chunkSize = this.config.chunkSize;
 
+        const session = await this.createFileSession(location, totalSize, dcId);
+
+        const statePath = `${partPath}.json`;
+        let resumeOffset = await this.loadResumeState(partPath, totalSize, chunkSize);
+
+        // Chunks kept from an earlier attempt have to match the hashes as well
+        if (resumeOffset > 0 && session.verifier && !await this.verifyPartFile(session.verifier, partPath, resumeOffset, chunkSize)) {
+            if (this.logger) {
+                this.logger.warn(`Partial download ${partPath} failed hash verification, starting over`);
+            }
+            resumeOffset = 0;
+        }
+
+        const state: ResumeState = { size: totalSize, chunkSize, completed: [] };
+        for (let offset = 0; offset < resumeOffset; offset += chunkSize) {
+            state.completed.push(offset);
+        }
+
+        // Serialize sidecar writes so concurrent chunk completions can't interleave
+        let stateWrite: Promise<void> = fs.writeFile(statePath, JSON.stringify(state));
+        const saveState = () => {
+            stateWrite = stateWrite.then(() => fs.writeFile(statePath, JSON.stringify(state))).catch(() => {});
+        };
+
+        if (resumeOffset > 0) {
+            await fs.truncate(partPath, resumeOffset);
+            if (this.logger) {
+                this.logger.info(`Resuming ${partPath} from ${resumeOffset}/${totalSize} bytes`);
+            }
+        }
+
+        const writeStream = createWriteStream(partPath, { flags: resumeOffset > 0 ? 'a' : 'w' });
+
         // Calculate chunks
         const chunks: ChunkTask[] = [];
-        for (let offset = 0; offset < totalSize; offset += chunkSize) {
+        for (let offset = resumeOffset; offset < totalSize; offset += chunkSize) {
             const limit = Math.min(chunkSize, totalSize - offset);
             chunks.push({ offset, limit, retries: 0 });
         }
 
         // Buffer for ordering chunks (limit memory usage)
         const buffers: { [key: number]: Buffer } = {};
-        let downloadedBytes = 0;
-        let writtenBytes = 0;
-        let nextWriteOffset = 0;
-        let activeDownloads = 0;
+        let downloadedBytes = resumeOffset;
+        let writtenBytes = resumeOffset;
+        let nextWriteOffset = resumeOffset;
         let bufferedChunks = 0; // Track number of chunks in memory
         const maxConcurrent = threads;
         let writeError: Error | null = null;
 
-        // Sender for the correct DC (may change if file is on different DC)
-        let sender: MTProtoSender | undefined;
-        if (dcId !== undefined) {
-            sender = await this.client.getSender(dcId);
-        }
+        // Request slots cap concurrent requests, buffer slots cap chunks held in memory until written
+        const requestSlots = new Semaphore(() => this.getThreadLimit(maxConcurrent));
+        const bufferSlots = new Semaphore(maxConcurrent * 2);
+        const bufferReleases = new Map<number, () => void>();
+
+        // Resolved on the first failed chunk so the scheduler stops waiting for slots
+        let failed: () => void;
+        const failure = new Promise<null>(resolve => failed = () => resolve(null));
+
+        // Cancel the whole file when it makes no progress for `fileTimeout` seconds
+        let stalled: (error: DownloadStalledError) => void;
+        const stall = new Promise<never>((resolve, reject) => stalled = reject);
+        stall.catch(() => {});
+
+        const watchdog = this.watchInactivity(partPath, error => {
+            writeError = writeError || error;
+            failed();
+            stalled(error);
+        });
+        session.touch = watchdog.touch;
+
+        // Shared file reference refresh, concurrent chunks wait for the same refetch
+        let refreshing: Promise<void> | null = null;
+        let referenceRefreshes = 0;
 
         // Progress tracking
         const updateProgress = () => {
@@ -417,13 +881,21 @@ export class AcceleratedDownloader {
         const writeOrderedChunks = async () => {
             while (buffers[nextWriteOffset] && !writeError) {
                 const buffer = buffers[nextWriteOffset];
-                
-                // Handle backpressure
-                const canContinue = writeStream.write(buffer);
+                const offset = nextWriteOffset;
+
+                // Handle backpressure, record the chunk only once it has been flushed
+                const canContinue = writeStream.write(buffer, (error) => {
+                    if (!error) {
+                        state.completed.push(offset);
+                        saveState();
+                    }
+                });
                 writtenBytes += buffer.length;
                 
                 delete buffers[nextWriteOffset]; // Free memory immediately
                 bufferedChunks--; // Decrement buffer count
+                bufferReleases.get(offset)?.();
+                bufferReleases.delete(offset);
                 nextWriteOffset += chunkSize;
 
                 if (!canContinue) {
@@ -434,24 +906,18 @@ export class AcceleratedDownloader {
 
         // Download chunk with retry logic
         const downloadChunk = async (task: ChunkTask): Promise<void> => {
-            activeDownloads++;
-            try {
-                const request = new Api.upload.GetFile({
-                    location: location,
-                    offset: bigInt(task.offset),
-                    limit: task.limit,
-                    precise: true,
-                });
+            // The file already failed, don't keep retrying its chunks
+            if (writeError) throw writeError;
 
-                // Use sender if available (for correct DC), otherwise use default client
-                const result = sender
-                    ? await this.client.invokeWithSender(request, sender)
-                    : await this.client.invoke(request);
+            const usedLocation = session.location;
+            try {
+                const bytes = await this.requestVerifiedChunk(session, task.offset, task.limit);
 
-                if (result instanceof Api.upload.File) {
-                    buffers[task.offset] = result.bytes;
+                if (bytes) {
+                    watchdog.touch();
+                    buffers[task.offset] = bytes;
                     bufferedChunks++; // Increment buffer count
-                    downloadedBytes += result.bytes.length;
+                    downloadedBytes += bytes.length;
                     updateProgress();
                     
                     // Try to write ordered chunks
@@ -463,9 +929,42 @@ export class AcceleratedDownloader {
                     if (this.logger) {
                         this.logger.info(`File lives in DC ${error.newDc}, switching sender`);
                     }
-                    // Get sender for the correct DC and retry
-                    // Don't decrement activeDownloads here - let finally handle it after retry completes
-                    sender = await this.client.getSender(error.newDc);
+                    // Retry on the correct DC, the slot is kept until the retry completes
+                    session.dcId = error.newDc;
+                    return await downloadChunk(task);
+                }
+
+                // Handle expired file reference - refetch the message and retry with the fresh location
+                if (refreshLocation && isFileReferenceError(error)) {
+                    // Another chunk already refreshed the location since this request was sent
+                    if (session.location !== usedLocation) {
+                        return await downloadChunk(task);
+                    }
+
+                    if (!refreshing) {
+                        if (referenceRefreshes >= MAX_REFERENCE_REFRESHES) {
+                            writeError = new Error(`File reference still invalid after ${MAX_REFERENCE_REFRESHES} refreshes: ${error}`);
+                            throw writeError;
+                        }
+
+                        referenceRefreshes++;
+                        if (this.logger) {
+                            this.logger.info(`File reference expired at offset ${task.offset}, refetching message`);
+                        }
+                        refreshing = refreshLocation().then(freshLocation => {
+                            session.location = freshLocation;
+                            session.cdn = undefined;
+                        }).finally(() => {
+                            refreshing = null;
+                        });
+                    }
+
+                    try {
+                        await refreshing;
+                    } catch (refreshError) {
+                        writeError = writeError || new Error(`Failed to refresh file reference: ${refreshError}`);
+                        throw writeError;
+                    }
                     return await downloadChunk(task);
                 }
 
@@ -476,14 +975,12 @@ export class AcceleratedDownloader {
                         this.logger.warn(`Chunk at offset ${task.offset} failed, retrying (${task.retries}/${this.config.maxRetries})`);
                     }
                     await this.sleep(1000 * task.retries);
-                    // Don't decrement activeDownloads here - let finally handle it after retry completes
                     return await downloadChunk(task);
                 } else {
-                    writeError = new Error(`Failed to download chunk at offset ${task.offset} after ${this.config.maxRetries} retries: ${error}`);
+                    const message = `Failed to download chunk at offset ${task.offset} after ${this.config.maxRetries} retries: ${error}`;
+                    writeError = error instanceof DownloadStalledError ? new DownloadStalledError(message) : new Error(message);
                     throw writeError;
                 }
-            } finally {
-                activeDownloads--;
             }
         };
 
@@ -491,26 +988,29 @@ export class AcceleratedDownloader {
         const downloadPromises: Promise<void>[] = [];
         
         for (const chunk of chunks) {
-            if (writeError) break;
-            
-            // Wait if we've hit max concurrent downloads or too many buffered chunks
-            while ((activeDownloads >= maxConcurrent || bufferedChunks >= maxConcurrent * 2) && !writeError) {
-                await this.sleep(50);
-                await writeOrderedChunks(); // Try to write while waiting
-            }
-            
-            downloadPromises.push(downloadChunk(chunk));
+            // Wait until the chunk fits in memory and a request slot is free
+            const releaseBuffer = await Promise.race([bufferSlots.acquire(), failure]);
+            if (!releaseBuffer || writeError) break;
+            bufferReleases.set(chunk.offset, releaseBuffer);
+
+            const releaseRequest = await Promise.race([requestSlots.acquire(), failure]);
+            if (!releaseRequest || writeError) break;
+
+            downloadPromises.push(downloadChunk(chunk).catch(error => {
+                failed();
+                throw error;
+            }).finally(releaseRequest));
         }
 
         try {
-            // Wait for all downloads to complete
-            await Promise.all(downloadPromises);
+            // Wait for all downloads to complete, chunks that hang are abandoned on stall
+            await Promise.race([Promise.all(downloadPromises), stall]);
 
             // Write any remaining ordered chunks
             await writeOrderedChunks();
 
             // Close the stream
-            return new Promise((resolve, reject) => {
+            await new Promise<void>((resolve, reject) => {
                 writeStream.end(() => {
                     if (writeError) {
                         reject(writeError);
@@ -520,9 +1020,19 @@ export class AcceleratedDownloader {
                 });
                 writeStream.on('error', reject);
             });
+
+            // Download complete, the sidecar is no longer needed
+            await stateWrite;
+            await fs.rm(statePath, { force: true });
+
+            return session.verifier ? session.verifier.verified : false;
         } catch (error) {
-            writeStream.end();
+            // Keep the part file and sidecar so the next attempt can resume
+            await new Promise<void>(resolve => writeStream.end(resolve));
+            await stateWrite;
             throw error;
+        } finally {
+            watchdog.stop();
         }
     }
 
@@ -530,3 +1040,31 @@ export class AcceleratedDownloader {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 }
+
+/**
+ * Recursively find leftover temp files of unfinished downloads
+ * @param dir Directory to sweep
+ * @returns Paths of the `.part` files found
+ */
+export async function findPartialDownloads(dir: string): Promise<string[]> {
+    const found: string[] = [];
+
+    let entries: Dirent[];
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return found;
+    }
+
+    for (const entry of entries) {
+        const path = `${dir}/${entry.name}`;
+
+        if (entry.isDirectory()) {
+            found.push(...await findPartialDownloads(path));
+        } else if (entry.name.endsWith(PART_SUFFIX)) {
+            found.push(path);
+        }
+    }
+
+    return found;
+}
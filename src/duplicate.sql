@@ -0,0 +1,22 @@
+PRAGMA foreign_keys = false;
+
+-- ----------------------------
+-- Table structure for duplicate
+-- ----------------------------
+DROP TABLE IF EXISTS "duplicate";
+CREATE TABLE "duplicate" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "channelId"   TEXT NOT NULL,
+  "savePath"    TEXT NOT NULL,
+  "duplicateOf" TEXT NOT NULL,
+  "size"        INTEGER NOT NULL,
+  "mode"        TEXT NOT NULL,
+  "date"        DATE NOT NULL,
+  CONSTRAINT "id" UNIQUE ("id" ASC)
+);
+
+-- ----------------------------
+-- Records of duplicate
+-- ----------------------------
+
+PRAGMA foreign_keys = true;
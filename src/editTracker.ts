@@ -0,0 +1,214 @@
+import { Statement } from 'better-sqlite3';
+import { Api, TelegramClient } from 'telegram';
+import { Logger } from 'telegram/extensions/Logger';
+
+import { Db } from './db';
+import { FloodController } from './floodController';
+import { md5 } from './functions';
+import { unwrapMedia } from './mediaTypes';
+
+/**
+ * Edit Tracker
+ * Re-reads the recently archived messages of a channel to find the ones an admin edited or deleted,
+ * since `spider.lastIds` never looks back at messages it has passed
+ *
+ * Every event is a row of the `message` table:
+ * - `version`: 0 for the message as first archived, counting up with every event
+ * - `event`: `edit` (with the edited message) or `delete` (with the last known message)
+ * - `eventDate`: when the message was edited, or when the deletion was noticed
+ *
+ * Only an edit that replaced the media comes with a file (`savePath`), the files of
+ * older versions stay with their own rows
+ */
+
+export interface EditedMessage {
+    message: Api.Message;
+    topicId: string;
+    // Version the replaced media is saved as
+    version: number;
+}
+
+export interface EditScanResult {
+    // Media was replaced, has to be downloaded as a new version
+    replaced: EditedMessage[];
+    // Only the caption changed, already recorded
+    edited: number[];
+    // Already recorded
+    deleted: number[];
+}
+
+interface MessageRow {
+    uniqueId: string;
+    channelId: string;
+    topicId: string;
+    messageId: string;
+    groupedId: string;
+    text: string;
+    rawMessage: string;
+    fileName: string;
+    savePath: string;
+    date: number;
+    version: number;
+    event: string;
+}
+
+/**
+ * The parts of `rawMessage` (an `Api.Message` through `JSON.stringify`) that are compared
+ */
+interface SerializedMessage {
+    peerId?: { channelId?: string };
+    editDate?: number;
+    media?: SerializedMedia;
+}
+
+interface SerializedFile {
+    id?: string;
+}
+
+interface SerializedMedia {
+    photo?: SerializedFile;
+    document?: SerializedFile;
+    webpage?: { photo?: SerializedFile, document?: SerializedFile };
+}
+
+interface TrackedMessage {
+    // The row of the message as first archived
+    first: MessageRow;
+    // The row of its latest event
+    last: MessageRow;
+    raw: SerializedMessage;
+}
+
+export class EditTracker {
+    private insertStatement: Statement;
+
+    private static readonly PAGE_SIZE = 100;
+
+    constructor(private client: TelegramClient, private db: Db, private flood: FloodController, private logger?: Logger) {
+        this.insertStatement = db.prepare("INSERT OR IGNORE INTO message (uniqueId, channelId, topicId, messageId, groupedId, text, rawMessage, fileName, savePath, date, version, event, eventDate) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+    }
+
+    /**
+     * Unique id of an edited version, `version` 0 is the message as first archived
+     */
+    static versionUniqueId(uniqueId: string, version: number): string {
+        return version ? md5(`${uniqueId}_v${version}`) : uniqueId;
+    }
+
+    /**
+     * Compare the archived messages of a channel with their current state
+     * @param minDate Only messages since this Unix timestamp are checked
+     */
+    async scan(channelId: string, minDate: number): Promise<EditScanResult> {
+        const result: EditScanResult = { replaced: [], edited: [], deleted: [] };
+        const tracked = this.getTrackedMessages(channelId, minDate);
+
+        for (let i = 0; i < tracked.length; i += EditTracker.PAGE_SIZE) {
+            const batch = tracked.slice(i, i + EditTracker.PAGE_SIZE);
+
+            const ids = batch.map(v => new Api.InputMessageID({ id: Number(v.first.messageId) }));
+
+            // Saved Messages isn't a channel
+            const response = await this.flood.run('history', () => this.client.invoke(
+                channelId == 'me' ? new Api.messages.GetMessages({ id: ids }) : new Api.channels.GetMessages({ channel: channelId, id: ids })
+            )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+            const messages = new Map(response.messages.map(v => [v.id, v]));
+            const now = Math.floor(Date.now() / 1000);
+
+            for (const entry of batch) {
+                const id = Number(entry.first.messageId);
+                const message = messages.get(id);
+
+                if (!message) continue;
+
+                // Telegram answers a deleted id with `MessageEmpty`
+                if (message instanceof Api.MessageEmpty) {
+                    this.record(entry, 'delete', entry.last.rawMessage, entry.last.text, now);
+                    result.deleted.push(id);
+                    continue;
+                }
+
+                if (!(message instanceof Api.Message) || !message.editDate || message.editDate <= (entry.raw.editDate || 0)) continue;
+
+                if (getMediaKey(message.media) != getSerializedMediaKey(entry.raw.media)) {
+                    // Recorded when the new version has been downloaded
+                    result.replaced.push({ message, topicId: entry.first.topicId, version: entry.last.version + 1 });
+                } else {
+                    this.record(entry, 'edit', JSON.stringify(message), message.rawText || '', message.editDate);
+                    result.edited.push(id);
+                }
+            }
+        }
+
+        if (this.logger && (result.replaced.length || result.edited.length || result.deleted.length)) {
+            this.logger.debug(`Channel ${channelId}: ${result.replaced.length} replaced, ${result.edited.length} edited, ${result.deleted.length} deleted`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Channel posts archived since `minDate` that have not been deleted yet
+     */
+    private getTrackedMessages(channelId: string, minDate: number): TrackedMessage[] {
+        const rows = this.db.prepareGetAll(
+            "SELECT * FROM message WHERE channelId = ? AND date >= ? ORDER BY version, id",
+            channelId, minDate
+        ) as MessageRow[];
+
+        const tracked = new Map<string, TrackedMessage>();
+
+        for (const row of rows) {
+            const raw: SerializedMessage = JSON.parse(row.rawMessage || '{}');
+
+            // Comments are stored with the channel too, but they are messages of the discussion group
+            if (channelId != 'me' && (!raw.peerId || `${raw.peerId.channelId}` != channelId)) continue;
+
+            const entry = tracked.get(row.messageId);
+
+            tracked.set(row.messageId, { first: entry ? entry.first : row, last: row, raw });
+        }
+
+        return [...tracked.values()].filter(v => v.last.event != 'delete');
+    }
+
+    private record(entry: TrackedMessage, event: 'edit' | 'delete', rawMessage: string, text: string, eventDate: number) {
+        const { first, last } = entry;
+        const version = last.version + 1;
+
+        this.insertStatement.run(
+            EditTracker.versionUniqueId(first.uniqueId, version), first.channelId, first.topicId, first.messageId, first.groupedId,
+            text, rawMessage, '', '', first.date, version, event, eventDate
+        );
+    }
+}
+
+/**
+ * Photo/document id of a message media
+ */
+function getMediaKey(media: Api.TypeMessageMedia | undefined): string {
+    const unwrapped = media ? unwrapMedia(media) : null;
+
+    if (unwrapped instanceof Api.MessageMediaPhoto && unwrapped.photo) {
+        return unwrapped.photo.id.toString();
+    }
+
+    if (unwrapped instanceof Api.MessageMediaDocument && unwrapped.document) {
+        return unwrapped.document.id.toString();
+    }
+
+    return '';
+}
+
+/**
+ * Photo/document id of a media saved in `rawMessage`, the same as `getMediaKey` gives for it
+ */
+function getSerializedMediaKey(media: SerializedMedia | undefined): string {
+    if (!media) return '';
+
+    const source = media.webpage || media;
+    const file = source.document || source.photo;
+
+    return file && file.id ? `${file.id}` : '';
+}
@@ -0,0 +1,10 @@
+/**
+ * Thrown when a download made no progress within the configured timeout
+ * The hung request is abandoned and its connection dropped, so the download can be retried
+ */
+export class DownloadStalledError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DownloadStalledError';
+    }
+}
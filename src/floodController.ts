@@ -0,0 +1,122 @@
+import { FloodWaitError } from 'telegram/errors';
+import { Logger } from 'telegram/extensions/Logger';
+
+/**
+ * Flood Controller
+ * Shared FLOOD_WAIT handling for all spider requests
+ *
+ * - A FloodWaitError pauses every worker of the same scope for the requested seconds
+ * - Each flood halves the concurrency scale, which doubles again after every
+ *   minute without floods until the configured concurrency is restored
+ */
+
+/**
+ * Request scopes that are paused together
+ * `download`: upload.GetFile, `history`: messages.GetHistory / GetReplies / GetMessages
+ */
+export type FloodScope = 'download' | 'history';
+
+export interface FloodStatus {
+    scale: number;
+    floods: number;
+    paused: { scope: FloodScope, remaining: number }[];
+}
+
+export class FloodController {
+    private pausedUntil: { [scope in FloodScope]?: number } = {};
+    private scale = 1;
+    private calmSince = 0;
+    private floods = 0;
+
+    private static readonly MIN_SCALE = 1 / 8;
+    private static readonly REGROW_INTERVAL = 60 * 1000;
+    private static readonly MAX_FLOOD_RETRIES = 5;
+
+    constructor(private logger?: Logger) {}
+
+    /**
+     * Run a request, waiting out any active pause of its scope
+     * and retrying it after FLOOD_WAIT instead of failing
+     */
+    async run<T>(scope: FloodScope, request: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            await this.wait(scope);
+
+            try {
+                return await request();
+            } catch (error) {
+                if (!(error instanceof FloodWaitError) || attempt >= FloodController.MAX_FLOOD_RETRIES) {
+                    throw error;
+                }
+
+                this.report(scope, error.seconds);
+            }
+        }
+    }
+
+    /**
+     * Wait until the scope is no longer paused
+     */
+    async wait(scope: FloodScope): Promise<void> {
+        // Another flood may extend the pause while sleeping
+        let remaining: number;
+        while ((remaining = (this.pausedUntil[scope] || 0) - Date.now()) > 0) {
+            await new Promise(resolve => setTimeout(resolve, remaining));
+        }
+    }
+
+    /**
+     * Record a FLOOD_WAIT response: pause the scope and shrink concurrency
+     * @param seconds Seconds requested by the server
+     */
+    report(scope: FloodScope, seconds: number) {
+        const until = Date.now() + seconds * 1000;
+
+        if (until > (this.pausedUntil[scope] || 0)) {
+            this.pausedUntil[scope] = until;
+        }
+
+        this.regrow();
+        this.scale = Math.max(FloodController.MIN_SCALE, this.scale / 2);
+        this.calmSince = Math.max(this.calmSince, until);
+        this.floods++;
+
+        if (this.logger) {
+            this.logger.warn(`FLOOD_WAIT ${seconds}s on ${scope} requests, concurrency scaled to ${Math.round(this.scale * 100)}%`);
+        }
+    }
+
+    /**
+     * Scale a configured concurrency by the current flood state
+     * @param base Configured concurrency
+     * @returns Concurrency to use right now, at least 1
+     */
+    getLimit(base: number): number {
+        this.regrow();
+
+        return Math.max(1, Math.floor(base * this.scale));
+    }
+
+    getStatus(): FloodStatus {
+        this.regrow();
+
+        const now = Date.now();
+        const paused = (Object.keys(this.pausedUntil) as FloodScope[])
+            .map(scope => ({ scope, remaining: Math.ceil((this.pausedUntil[scope] - now) / 1000) }))
+            .filter(v => v.remaining > 0);
+
+        return { scale: this.scale, floods: this.floods, paused };
+    }
+
+    /**
+     * Double the scale for every full interval without floods
+     */
+    private regrow() {
+        const now = Date.now();
+
+        while (this.scale < 1 && now - this.calmSince >= FloodController.REGROW_INTERVAL) {
+            this.calmSince += FloodController.REGROW_INTERVAL;
+            this.scale = Math.min(1, this.scale * 2);
+        }
+    }
+}
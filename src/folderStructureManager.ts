@@ -1,4 +1,6 @@
 import { DataDir, sanitizeFolderName } from './functions';
+import { MediaType } from './mediaTypes';
+import { LocalStorageSink, StorageSink } from './storageSink';
 import { Tonfig } from '@liesauer/tonfig';
 
 /**
@@ -6,11 +8,15 @@ import { Tonfig } from '@liesauer/tonfig';
  * Centralized management of folder path generation logic
  * Eliminates code duplication and provides clear priority for folder organization
  * 
+ * Folders are built as storage keys relative to the archive root,
+ * the storage sink decides where a key lives locally while downloading
+ * 
  * Priority order:
- * 1. Base folder: DataDir() + channelTitle (or channelId)
+ * 1. Base folder: channelTitle (or channelId)
  * 2. Topic folder: _${topicId} (if forum and topicId exists)
+ *    or comment folder: ${postId}_comments (if it is a comment of a channel post)
  * 3. Group message folder: ${groupedId} (if groupMessage enabled and groupedId exists)
- * 4. File type folder: photo/video/audio/file (if fileOrganization enabled)
+ * 4. File type folder: photo/video/audio/file/sticker/gif/voice/round/webpage (if fileOrganization enabled)
  */
 
 export interface FolderOptions {
@@ -19,35 +25,58 @@ export interface FolderOptions {
     topicId?: string;
     groupedId?: string;
     messageId?: string;
-    mediaType?: 'photo' | 'video' | 'audio' | 'file';
+    mediaType?: MediaType;
+    // Channel post a comment belongs to
+    postId?: string;
+    // Edited media is saved next to the original as `${messageId}_v${version}`
+    version?: number;
 }
 
 export class FolderStructureManager {
-    constructor(private tonfig: Tonfig) {}
+    private sink: StorageSink;
+
+    constructor(private tonfig: Tonfig, sink?: StorageSink) {
+        this.sink = sink || new LocalStorageSink(DataDir());
+    }
 
     /**
-     * Build the complete folder path for a media file
+     * Build the complete local folder path for a media file
      * @param options Folder options
      * @returns Complete folder path
      */
     buildFolderPath(options: FolderOptions): string {
+        return this.sink.localPath(this.buildFolderKey(options));
+    }
+
+    /**
+     * Build the storage key of the folder for a media file
+     * @param options Folder options
+     * @returns Folder key relative to the archive root
+     */
+    buildFolderKey(options: FolderOptions): string {
         const {
             channelId,
             channelTitle,
             topicId,
             groupedId,
-            mediaType
+            mediaType,
+            postId
         } = options;
 
-        // Start with base directory: DataDir + channel folder
+        // Start with the channel folder
         const folderName = sanitizeFolderName(channelTitle) || channelId;
-        let dir = `${DataDir()}/${folderName}`;
+        let dir = folderName;
 
         // Add topic folder if exists
         if (topicId) {
             dir += `/_${topicId}`;
         }
 
+        // Comments go next to the post they belong to
+        if (postId) {
+            dir += `/${postId}_comments`;
+        }
+
         // Add grouped message folder if enabled
         const groupMessage = this.tonfig.get<boolean>('spider.groupMessage', false);
         if (groupMessage && groupedId) {
@@ -71,11 +100,11 @@ export class FolderStructureManager {
      * @returns Filename without extension
      */
     buildFilename(options: FolderOptions & { rawFileName?: string }): string {
-        const { messageId, groupedId, rawFileName } = options;
+        const { messageId, groupedId, rawFileName, version } = options;
 
         const groupMessage = this.tonfig.get<boolean>('spider.groupMessage', false);
         
-        let filename = `${messageId}`;
+        let filename = version ? `${messageId}_v${version}` : `${messageId}`;
 
         // If group message is disabled, prepend groupedId to filename
         if (!groupMessage && groupedId) {
@@ -107,7 +136,7 @@ export class FolderStructureManager {
     }
 
     /**
-     * Build complete file path
+     * Build complete local file path
      * @param options File options
      * @param extension File extension (without dot)
      * @returns Complete file path
@@ -116,7 +145,20 @@ export class FolderStructureManager {
         options: FolderOptions & { rawFileName?: string },
         extension: string
     ): string {
-        const dir = this.buildFolderPath(options);
+        return this.sink.localPath(this.buildFileKey(options, extension));
+    }
+
+    /**
+     * Build the storage key of a file
+     * @param options File options
+     * @param extension File extension (without dot)
+     * @returns File key relative to the archive root
+     */
+    buildFileKey(
+        options: FolderOptions & { rawFileName?: string },
+        extension: string
+    ): string {
+        const dir = this.buildFolderKey(options);
         const filename = this.buildFilename(options);
         
         // If raw filename exists and already has extension, don't add another
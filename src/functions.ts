@@ -119,6 +119,25 @@ export async function countdown(countdown: number) : Promise<"timeout"> {
     }).then(() => 'timeout');
 }
 
+/**
+ * Reject if a promise doesn't settle in time, the promise itself keeps running
+ * @param ms Timeout in milliseconds, 0 to wait forever
+ * @param onTimeout Build the rejection error (and clean up after the abandoned promise)
+ */
+export async function withTimeout<T>(promise: Promise<T>, ms: number, onTimeout: () => Error): Promise<T> {
+    if (!(ms > 0)) return await promise;
+
+    let timer: NodeJS.Timeout;
+
+    try {
+        return await Promise.race([promise, new Promise<never>((resolve, reject) => {
+            timer = setTimeout(() => reject(onTimeout()), ms);
+        })]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
 export async function retry<T = any>(promise: () => Promise<T>, maxRetries: number, retryPolicy?: (error: any) => boolean, retryDelay?: number): Promise<T> {
     return promise().catch<T>(async error => {
         let shouldRetry = maxRetries > 0;
@@ -190,3 +209,20 @@ export function sanitizeFolderName(name: string): string {
     // Invalid characters: / \ : * ? " < > |
     return name.replace(/[/\\:*?"<>|]/g, '_').trim();
 }
+
+/**
+ * Parse a config date, `YYYY-MM-DD` is taken as a local day
+ * @param endOfDay A bare date means the end of that day
+ * @returns Unix timestamp in seconds
+ */
+export function parseDate(text: string, endOfDay: boolean): number {
+    const matches = `${text}`.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+
+    const date = matches
+        ? new Date(Number(matches[1]), Number(matches[2]) - 1, Number(matches[3]) + (endOfDay ? 1 : 0))
+        : new Date(text);
+
+    const time = Math.floor(date.getTime() / 1000) - (matches && endOfDay ? 1 : 0);
+
+    return isNaN(time) ? (endOfDay ? Infinity : -Infinity) : time;
+}
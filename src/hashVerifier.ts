@@ -0,0 +1,103 @@
+import bigInt from 'big-integer';
+import { createHash } from 'crypto';
+import { Api } from 'telegram';
+import { Logger } from 'telegram/extensions/Logger';
+
+/**
+ * Hash Verifier
+ * Checks downloaded bytes against the SHA-256 block hashes Telegram publishes for a file
+ * (upload.GetFileHashes for documents, upload.GetCdnFileHashes for CDN files)
+ */
+export class HashVerifier {
+    /** Hash blocks keyed by offset */
+    private hashes = new Map<number, Api.FileHash>();
+    private available = true;
+    private complete = true;
+
+    /**
+     * @param fetchHashes Fetch the hash blocks starting at an offset
+     * @param totalSize Size of the whole file
+     * @param required Whether missing hashes are an error rather than leaving the file unverified
+     */
+    constructor(
+        private fetchHashes: (offset: number) => Promise<Api.TypeFileHash[]>,
+        private totalSize: number,
+        private required: boolean,
+        private logger?: Logger
+    ) {}
+
+    /**
+     * Whether every byte checked so far matched a published hash
+     */
+    get verified(): boolean {
+        return this.available && this.complete;
+    }
+
+    add(hashes: Api.TypeFileHash[]) {
+        for (const hash of hashes || []) {
+            if (hash instanceof Api.FileHash) {
+                this.hashes.set(bigInt(hash.offset).toJSNumber(), hash);
+            }
+        }
+    }
+
+    /**
+     * Verify the bytes of a chunk
+     * @throws Error if a block doesn't match its hash, so the chunk can be downloaded again
+     */
+    async verify(bytes: Buffer, offset: number): Promise<void> {
+        let position = 0;
+
+        while (position < bytes.length && this.available) {
+            const hash = await this.getHash(offset + position);
+
+            if (!hash) return;
+
+            const block = bytes.subarray(position, position + hash.limit);
+
+            // A chunk ending mid-block can only be checked once the block is complete
+            if (block.length < hash.limit && offset + position + block.length < this.totalSize) {
+                this.complete = false;
+                if (this.logger) {
+                    this.logger.debug(`Chunk at offset ${offset} ends inside a hash block, partially unverified`);
+                }
+                return;
+            }
+
+            if (!createHash('sha256').update(block).digest().equals(hash.hash)) {
+                throw new Error(`Chunk at offset ${offset + position} failed hash verification`);
+            }
+
+            position += hash.limit;
+        }
+    }
+
+    private async getHash(offset: number): Promise<Api.FileHash | null> {
+        if (!this.hashes.has(offset)) {
+            try {
+                this.add(await this.fetchHashes(offset));
+            } catch (error) {
+                if (this.required) throw error;
+
+                this.available = false;
+                if (this.logger) {
+                    this.logger.warn(`File hashes unavailable, download stays unverified: ${error}`);
+                }
+                return null;
+            }
+        }
+
+        const hash = this.hashes.get(offset);
+
+        if (!hash) {
+            if (this.required) {
+                throw new Error(`No hash available for offset ${offset}`);
+            }
+
+            this.complete = false;
+            return null;
+        }
+
+        return hash;
+    }
+}
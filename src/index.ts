@@ -15,15 +15,28 @@ import { Tonfig } from '@liesauer/tonfig';
 
 import { Db } from './db';
 import {
-    array2dictionary, consoletable, DataDir, ellipsisLeft, ellipsisMiddle, md5, sanitizeFolderName, waitForever,
-    waitTill
+    array2dictionary, consoletable, DataDir, ellipsisLeft, ellipsisMiddle, md5, parseDate, sanitizeFolderName,
+    waitForever, waitTill
 } from './functions';
-import { MenuSystem, GroupInfo } from './menu';
+import { MenuSystem, GroupInfo, TopicInfo } from './menu';
 import { AnnotatedDictionary, UnwrapAnnotatedDictionary } from './types';
-import { AcceleratedDownloader, DownloadConfig } from './downloader';
+import { AcceleratedDownloader, DownloadConfig, findPartialDownloads } from './downloader';
 import { uiStateManager } from './uiStateManager';
 import { globalEventBus } from './eventBus';
+import { DeduplicationMode, Deduplicator } from './deduplicator';
+import { DiskSpaceGuard } from './diskSpaceGuard';
+import { EditTracker } from './editTracker';
+import { DownloadStalledError } from './errors';
 import { FolderStructureManager } from './folderStructureManager';
+import { DEFAULT_MEDIA_TYPES, getDefaultExtension, getMediaType, MediaType, unwrapMedia } from './mediaTypes';
+import { MediaSearch } from './mediaSearch';
+import { MessageFilter } from './messageFilter';
+import { RealtimeWatcher } from './realtimeWatcher';
+import { RetentionManager } from './retentionManager';
+import { BandwidthLimiter } from './bandwidthLimiter';
+import { CommentTracker } from './commentTracker';
+import { FloodController } from './floodController';
+import { LocalStorageSink, S3Options, S3StorageSink, StorageSink } from './storageSink';
 
 const argv = minimist(process.argv.slice(2));
 
@@ -153,6 +166,8 @@ async function getChannelInfos(client: TelegramClient) {
             title:    chat.title,
             forum:    chat.forum,
             username: chat.username,
+            // 频道绑定了讨论组，帖子才会有评论
+            comments: !!(chat.broadcast && chat.hasLink),
             topics:   [] as ReturnType<typeof getTopics>,
         };
     });
@@ -177,6 +192,7 @@ async function getChannelInfos(client: TelegramClient) {
         title:    "Saved Messages",
         forum:    false,
         username: "",
+        comments: false,
         topics:   [],
     });
 
@@ -195,14 +211,14 @@ async function getChannelMessages(client: TelegramClient, channelId: string, las
 
     if (lastId) {
         do {
-            const _messages = await client.invoke(
+            const _messages = await floodController.run('history', () => client.invoke(
                 new Api.messages.GetHistory({
                     peer: channelId,
                     addOffset: -1 - limit,
                     offsetId: lastId,
                     limit: limit,
                 })
-            ) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+            )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
 
             if (_messages.messages.length) {
                 // 最新的消息在数组前面
@@ -221,14 +237,14 @@ async function getChannelMessages(client: TelegramClient, channelId: string, las
 
         do {
             // 第一次获取第一条信息，后面正常取
-            const _messages = await client.invoke(
+            const _messages = await floodController.run('history', () => client.invoke(
                 new Api.messages.GetHistory({
                     peer: channelId,
                     offsetId: 1,
                     addOffset: -1,
                     limit: 1,
                 })
-            ) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+            )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
 
             page++;
 
@@ -240,10 +256,6 @@ async function getChannelMessages(client: TelegramClient, channelId: string, las
             }
 
             if (!_messages.messages.length || _messages.messages.length < limit) break;
-            if (newStrategy && newStrategy !== -1 && messages.length >= newStrategy) {
-                messages = messages.slice(0, newStrategy);
-                break;
-            }
 
             // 只获取一页，由外部控制增量抓取
             break;
@@ -251,36 +263,36 @@ async function getChannelMessages(client: TelegramClient, channelId: string, las
 
         messages.reverse();
     } else if (newStrategy >= 0) {
-        let page = 0;
+        let offsetId = 0;
 
         do {
-            const _messages = await client.invoke(
+            const _messages = await floodController.run('history', () => client.invoke(
                 new Api.messages.GetHistory({
                     peer: channelId,
-                    addOffset: page * limit,
-                    limit: newStrategy === 0 ? 1 : limit,
+                    offsetId: offsetId,
+                    limit: newStrategy === 0 ? 1 : Math.min(limit, newStrategy - messages.length),
                 })
-            ) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
-
-            page++;
+            )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
 
             if (_messages.messages.length) {
-                // 最新的消息在数组前面
-                lastId = _messages.messages[0].id;
+                // 最新的消息在数组前面，之后从最新的消息开始增量抓取
+                if (!offsetId) {
+                    lastId = _messages.messages[0].id;
+                }
+
+                // 从更早的消息继续往前翻页
+                offsetId = _messages.messages[_messages.messages.length - 1].id;
 
                 if (newStrategy !== 0) {
                     messages.push(..._messages.messages.map(v => v as Api.MessageService));
                 }
             }
 
-            if (!_messages.messages.length || _messages.messages.length < limit) break;
-            if (newStrategy && newStrategy !== -1 && messages.length >= newStrategy) {
+            if (newStrategy === 0 || !_messages.messages.length) break;
+            if (messages.length >= newStrategy) {
                 messages = messages.slice(0, newStrategy);
                 break;
             }
-
-            // 只获取一页，由外部控制增量抓取
-            break;
         } while (true);
 
         messages.reverse();
@@ -289,7 +301,84 @@ async function getChannelMessages(client: TelegramClient, channelId: string, las
     return { lastId: lastId || 0, messages };
 }
 
-function shouldDownload(channelId: string, media: Api.TypeMessageMedia, type: "photo" | "video" | "audio" | "file") {
+/**
+ * 通过 `offsetDate` 直接定位到指定时间之前的最后一条信息，不用从第一条信息开始翻页
+ * @param date Unix 时间戳
+ * @returns 信息id，指定时间之前没有信息时返回 0
+ */
+async function getMessageIdBefore(client: TelegramClient, channelId: string, date: number) {
+    const _messages = await floodController.run('history', () => client.invoke(
+        new Api.messages.GetHistory({
+            peer: channelId,
+            offsetDate: date,
+            limit: 1,
+        })
+    )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+    return _messages.messages.length ? _messages.messages[0].id : 0;
+}
+
+/**
+ * 获取论坛话题中此条信息以后的信息
+ * @param topicId 话题id，也就是创建话题的那条信息的id
+ */
+async function getTopicMessages(client: TelegramClient, channelId: string, topicId: number, lastId: number, limit: number = 100) {
+    const _messages = await floodController.run('history', () => client.invoke(
+        new Api.messages.GetReplies({
+            peer: channelId,
+            msgId: topicId,
+            addOffset: -1 - limit,
+            offsetId: lastId,
+            limit: limit,
+        })
+    )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+    // 最新的消息在数组前面
+    return _messages.messages.filter(v => v.id > lastId).map(v => v as Api.MessageService).reverse();
+}
+
+/**
+ * 论坛群组选择同步的话题，空数组表示同步所有话题
+ */
+function getSelectedTopics(channelId: string) {
+    return tonfig.get<(string | number)[]>(['spider', 'topics', channelId], []).map(v => `${v}`);
+}
+
+/**
+ * 频道的采集时间范围（Unix 时间戳），0 表示不限制
+ */
+function getChannelPeriod(channelId: string) {
+    const get = (name: 'since' | 'until') => {
+        const text = tonfig.get<string>(['spider', name, channelId], '');
+
+        if (!text) return 0;
+
+        const time = parseDate(text, name == 'until');
+
+        return isFinite(time) ? time : 0;
+    };
+
+    return { since: get('since'), until: get('until') };
+}
+
+/**
+ * 按id重新获取消息，用于刷新过期的文件引用（FILE_REFERENCE_EXPIRED）
+ */
+async function refetchMessage(client: TelegramClient, message: Api.MessageService) {
+    const id = [new Api.InputMessageID({ id: message.id })];
+
+    const result = await floodController.run('history', () => client.invoke(
+        message.peerId instanceof Api.PeerChannel
+            ? new Api.channels.GetMessages({ channel: message.peerId, id })
+            : new Api.messages.GetMessages({ id })
+    )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+    const fresh = result.messages.find(v => v.id == message.id);
+
+    return fresh && fresh.className == "Message" ? fresh : null;
+}
+
+function getMediaSize(media: Api.TypeMessageMedia): number | undefined {
     let sizeNum: number;
 
     if (media instanceof Api.MessageMediaPhoto) {
@@ -318,24 +407,64 @@ function shouldDownload(channelId: string, media: Api.TypeMessageMedia, type: "p
         }
     }
 
+    return sizeNum;
+}
+
+/**
+ * 过滤配置，频道配置优先于全局配置
+ */
+function getFilterConfig(name: string, channelId: string) {
+    const limit1 = tonfig.get<string>(['filter', name, channelId], '');
+    const limit2 = tonfig.get<string>(['filter', 'default', name], '');
+
+    return `${limit1 || limit2}`;
+}
+
+/**
+ * 格式：下限-上限，示例：10240-999999999
+ */
+function parseRange(text: string) {
+    const limit = text.split('-');
+
+    if (limit.length != 2) return null;
+
+    const num1 = Number(limit[0]);
+    const num2 = Number(limit[1]);
+
+    if (isNaN(num1) || isNaN(num2)) return null;
+
+    return { min: Math.min(num1, num2), max: Math.max(num1, num2) };
+}
+
+function shouldDownload(channelId: string, media: Api.TypeMessageMedia, type: MediaType) {
+    const sizeNum = getMediaSize(media);
+
     // 暂时不识别的文件，宁愿多下载也不要缺
-    if (sizeNum == null) return true;
+    if (sizeNum != null) {
+        // 单位：字节
+        const size = parseRange(getFilterConfig(type, channelId));
+
+        if (size && (sizeNum < size.min || sizeNum > size.max)) {
+            return false;
+        }
+    }
 
-    const limit1 = tonfig.get<string>(['filter', type, channelId], '');
-    const limit2 = tonfig.get<string>(['filter', 'default', type], '');
+    if (type == 'video') {
+        const document = (media as Api.MessageMediaDocument).document as Api.Document;
+        const attribute = document?.attributes?.find(v => v instanceof Api.DocumentAttributeVideo) as Api.DocumentAttributeVideo;
 
-    const limit = `${limit1 || limit2}`.split('-');
+        if (attribute) {
+            // 单位：秒
+            const duration = parseRange(getFilterConfig('videoDuration', channelId));
 
-    // 格式：下限-上限，示例：10240-999999999，单位：字节
-    if (limit.length == 2) {
-        const num1 = Number(limit[0]);
-        const num2 = Number(limit[1]);
+            if (duration && (attribute.duration < duration.min || attribute.duration > duration.max)) {
+                return false;
+            }
 
-        if (!isNaN(num1) && !isNaN(num2)) {
-            const min = Math.min(num1, num2);
-            const max = Math.max(num1, num2);
+            // 格式：最小宽度x最小高度，示例：1280x720
+            const resolution = getFilterConfig('videoResolution', channelId).match(/^(\d+)\s*[x*]\s*(\d+)$/i);
 
-            if (sizeNum < min || sizeNum > max) {
+            if (resolution && (attribute.w < Number(resolution[1]) || attribute.h < Number(resolution[2]))) {
                 return false;
             }
         }
@@ -350,12 +479,7 @@ function shouldDownload(channelId: string, media: Api.TypeMessageMedia, type: "p
     return true;
 }
 
-async function downloadChannelMedia(client: TelegramClient, channelId: string, message: Api.MessageService, channelInfo: UnwrapAnnotatedDictionary<typeof waitQueue>, medias?: string[], groupMessage?: boolean, saveRawMessage?: boolean) {
-    const photo = message.photo as Api.Photo;
-    const video = message.video as Api.Document;
-    const audio = message.audio as Api.Document;
-    const file  = message.document && message.document.attributes.length == 1 && message.document.attributes[0].className == "DocumentAttributeFilename" ? message.file : null;
-
+async function downloadChannelMedia(client: TelegramClient, channelId: string, message: Api.MessageService, channelInfo: UnwrapAnnotatedDictionary<typeof waitQueue>, medias?: string[], groupMessage?: boolean, saveRawMessage?: boolean, verifyDownloads?: boolean) {
     /**
      * MessageService：修改频道头像、信息等等
      */
@@ -366,7 +490,7 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
     const messageId      = message.id ? message.id.toString() : '';
     const groupedId      = message.groupedId ? message.groupedId.toString() : '';
     const _replyId       = message.replyTo?.replyToTopId || message.replyTo?.replyToMsgId || message.replyToMsgId;
-    let topicId          = (message.replyTo?.forumTopic && _replyId) ? _replyId.toString() : '';
+    let topicId          = message['topicId'] || ((message.replyTo?.forumTopic && _replyId) ? _replyId.toString() : '');
     channelId            = channelId || '';
     let commentChannelId = '';
 
@@ -374,6 +498,13 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
         topicId = '1';
     }
 
+    // 话题单独配置的文件类型优先
+    const topicMedias = topicId ? tonfig.get<string>(['spider', 'topicMedias', channelId, topicId], '') : '';
+
+    if (topicMedias) {
+        medias = `${topicMedias}`.split(',').map(v => v.trim());
+    }
+
     /**
      * 消息评论是需要在一个专门的频道承载的
      */
@@ -389,6 +520,11 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
         msg_uid = md5(`${channelId}_${topicId}_${messageId}_${groupedId}`);
     }
 
+    // 编辑后更换了文件的信息，作为新版本记录
+    const version: number = message['version'] || 0;
+
+    msg_uid = EditTracker.versionUniqueId(msg_uid, version);
+
     let querySatement: Statement;
     let insertSatement: Statement;
     let updateSatement: Statement;
@@ -398,7 +534,7 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
             downloadChannelMedia['_querySatement'] = database.prepare("SELECT id FROM message WHERE uniqueId = ?");
         }
         if (!downloadChannelMedia['_insertSatement']) {
-            downloadChannelMedia['_insertSatement'] = database.prepare("INSERT INTO message (uniqueId, channelId, topicId, messageId, groupedId, text, rawMessage, fileName, savePath, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+            downloadChannelMedia['_insertSatement'] = database.prepare("INSERT INTO message (uniqueId, channelId, topicId, messageId, groupedId, text, rawMessage, fileName, savePath, date, version, event, eventDate) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
         }
         if (!downloadChannelMedia['_updateSatement']) {
             downloadChannelMedia['_updateSatement'] = database.prepare("UPDATE message SET fileName = ?, savePath = ? WHERE uniqueId = ?");
@@ -411,20 +547,28 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
         if (!querySatement.get(msg_uid)) {
             const rawMessage = JSON.stringify(message);
 
-            insertSatement.run(msg_uid, channelId, topicId, messageId, groupedId, message.rawText || '', rawMessage, '', '', message.date || 0);
+            insertSatement.run(msg_uid, channelId, topicId, messageId, groupedId, message.rawText || '', rawMessage, '', '', message.date || 0, version, version ? 'edit' : '', version ? message.editDate || 0 : 0);
         }
     }
 
+    const skipReason = messageFilter.check(channelId, topicId, message as unknown as Api.Message);
+
+    if (skipReason) {
+        logger.info(`跳过 ${channelInfo.channelTitle} 的消息 ${messageId}：${skipReason}`);
+        return;
+    }
+
     let rawFileName = '';
     let fullFileName = '';
-    let absSavePath = '';
+    let savePath = '';
 
     // Helper function to download a specific media type
     const downloadMedia = async (
-        mediaType: 'photo' | 'video' | 'audio' | 'file',
+        mediaType: MediaType,
         defaultExtension: string
     ) => {
-        let media = message.media as Api.MessageMediaDocument;
+        // 网页预览下载其中的图片或文件
+        let media = unwrapMedia(message.media) as Api.MessageMediaDocument;
 
         if (!shouldDownload(channelId, media, mediaType)) {
             return;
@@ -455,10 +599,11 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
             groupedId,
             messageId,
             mediaType,
+            postId: message['postId'] ? `${message['postId']}` : '',
+            version,
         };
 
-        const dir = folderStructureManager.buildFolderPath(folderOptions);
-        mkdirSync(dir, { recursive: true });
+        const dir = folderStructureManager.buildFolderKey(folderOptions);
 
         const filename = folderStructureManager.buildFilename({ ...folderOptions, rawFileName });
         
@@ -467,35 +612,55 @@ async function downloadChannelMedia(client: TelegramClient, channelId: string, m
         fullFileName = hasExt ? filename : `${filename}.${ext || defaultExtension}`;
 
         channelInfo.fileName = fullFileName;
-        absSavePath = `${dir}/${fullFileName}`;
+        savePath = `${dir}/${fullFileName}`;
+
+        // 磁盘空间不足时在这里等待，空间释放后自动继续
+        await diskSpaceGuard.waitForSpace(getMediaSize(media) || 0);
 
         // Download the media directly to file (memory-efficient, avoids loading entire file into memory)
-        await acceleratedDownloader.downloadMediaToFile(message.media, absSavePath, (bytes, total) => {
+        const { verified, duplicate } = await acceleratedDownloader.downloadMediaToSink(media, savePath, (bytes, total) => {
             channelInfo.downloadedBytes = bytes;
             channelInfo.totalBytes = total;
-        });
-    };
+        }, async () => {
+            // 文件引用过期，重新获取消息以得到新的文件引用
+            const fresh = await refetchMessage(client, message);
 
-    // Download each media type using the unified function
-    if (photo && (!medias || medias.includes('photo'))) {
-        await downloadMedia('photo', 'jpg');
-    }
+            const freshMedia = fresh?.media ? unwrapMedia(fresh.media) : null;
 
-    if (video && (!medias || medias.includes('video'))) {
-        await downloadMedia('video', 'mp4');
-    }
+            if (!freshMedia) {
+                throw new Error(`消息 ${messageId} 已被删除或不再包含媒体`);
+            }
 
-    if (audio && (!medias || medias.includes('audio'))) {
-        await downloadMedia('audio', 'mp3');
-    }
+            message.media = fresh.media;
 
-    if (file && (!medias || medias.includes('file'))) {
-        await downloadMedia('file', 'dat');
-    }
+            return freshMedia;
+        }, channelId);
+
+        // 重复文件未保存，记录已存档的副本
+        if (duplicate && duplicate.mode == 'skip') {
+            savePath = duplicate.duplicateOf;
+        }
+
+        // 重复文件沿用已存档文件的校验记录
+        if (verifyDownloads && !duplicate) {
+            if (!downloadChannelMedia['_verifySatement']) {
+                downloadChannelMedia['_verifySatement'] = database.prepare("INSERT OR REPLACE INTO verification (savePath, verified, date) VALUES (?, ?, ?)");
+            }
+
+            const verifySatement: Statement = downloadChannelMedia['_verifySatement'];
+
+            // 记录校验结果，供后续审计未校验的文件
+            verifySatement.run(savePath, verified ? 1 : 0, Math.floor(Date.now() / 1000));
+        }
+    };
+
+    const mediaType = getMediaType(message.media);
 
-    if (saveRawMessage && (rawFileName || absSavePath)) {
-        const savePath = absSavePath.replace(DataDir() + '/', '');
+    if (mediaType && (!medias || medias.includes(mediaType))) {
+        await downloadMedia(mediaType, getDefaultExtension(mediaType, message.file?.mimeType));
+    }
 
+    if (saveRawMessage && (rawFileName || savePath)) {
         updateSatement.run(rawFileName, savePath, msg_uid);
     }
 }
@@ -514,10 +679,23 @@ let tonfig: Tonfig;
 let menuSystem: MenuSystem;
 let acceleratedDownloader: AcceleratedDownloader;
 let folderStructureManager: FolderStructureManager;
+let messageFilter: MessageFilter;
+let storageSink: StorageSink;
+let deduplicator: Deduplicator;
+let retentionManager: RetentionManager;
+let commentTracker: CommentTracker;
+let editTracker: EditTracker;
+let mediaSearch: MediaSearch;
+let diskSpaceGuard: DiskSpaceGuard;
+let bandwidthLimiter: BandwidthLimiter;
+let floodController: FloodController;
 
 let uiTimer: Cron;
 let mainTimer: Cron;
 let mediaSpiderTimer: Cron;
+let retentionTimer: Cron;
+
+let realtimeWatcher: RealtimeWatcher;
 
 let database: Db;
 
@@ -538,8 +716,36 @@ const waitQueue: AnnotatedDictionary<{
     messages: Api.MessageService[],
     medias: string[],
     lastDownloadTime: number,
+    // 已采集到 `spider.until`，不再抓取新的信息
+    finished: boolean,
+    // 已加入队列的最新信息id，按话题区分（`''` 为整个频道）
+    cursors: Record<string, number>,
 }, "channelId"> = {};
 
+/**
+ * 设置了 `spider.since` 的频道，起始时间之前最后一条信息的id
+ */
+const backfillStarts: Record<string, number> = {};
+
+/**
+ * 只同步部分话题时，已采集到 `spider.until` 的话题
+ */
+const finishedTopics: Record<string, Set<string>> = {};
+
+/**
+ * 下次检查频道新评论的时间
+ */
+const commentChecks: Record<string, number> = {};
+
+/**
+ * 下次检查频道近期信息编辑、删除的时间
+ */
+const editChecks: Record<string, number> = {};
+
+function finishedTopicsOf(channelId: string) {
+    return finishedTopics[channelId] = finishedTopics[channelId] || new Set<string>();
+}
+
 let execQueue;
 
 async function mediaSpider() {
@@ -547,6 +753,11 @@ async function mediaSpider() {
     
     await client.connect();
 
+    // 根据 FLOOD_WAIT 情况动态调整同时下载的频道数
+    if (execQueue) {
+        execQueue.concurrency = floodController.getLimit(tonfig.get<number>('spider.concurrency', 5));
+    }
+
     const allowChannels = tonfig.get<string[]>('spider.channels', []);
 
     for (const channel of channelInfos) {
@@ -561,7 +772,7 @@ async function mediaSpider() {
         let medias = tonfig.get(['spider', 'medias', channelId], '');
 
         if (!medias) {
-            medias = 'photo,video,audio,file';
+            medias = DEFAULT_MEDIA_TYPES.join(',');
             tonfig.set(['spider', 'medias', channelId], medias);
             await tonfig.save();
         }
@@ -581,12 +792,13 @@ async function mediaSpider() {
                 messages: [],
                 medias: mediasArr,
                 lastDownloadTime: 0,
+                finished: false,
+                cursors: {},
             };
         }
 
         /**
-         * 如果这个频道的数据还没有抓取完
-         * 就不再抓取新的信息
+         * 预先抓取若干页信息放在队列中，队列快下载完时继续补充
          * 
          * 因为要保存频道的最后抓取位置
          * 单个频道只能一条一条消息按顺序解析下载
@@ -594,49 +806,314 @@ async function mediaSpider() {
          * 只做多频道单消息同时下载
          * 不做单频道多消息同时下载
          */
-        if (waitQueue[channelId].messages.length) continue;
+        const limit = 100;
+        const bufferSize = Math.max(1, tonfig.get<number>('spider.prefetchPages', 5)) * limit;
 
-        const lastId = tonfig.get(['spider', 'lastIds', channelId], 0);
+        if (waitQueue[channelId].messages.length >= bufferSize / 2 || waitQueue[channelId].finished) continue;
 
-        const messages = await getChannelMessages(client, channelId, lastId, undefined, -1);
+        // 定期检查近期帖子的新评论，队列中还有信息时评论位置可能还没保存，等下载完再检查
+        if (!waitQueue[channelId].messages.length && commentTracker && isCommentsEnabled(channelId) && Date.now() >= (commentChecks[channelId] || 0)) {
+            commentChecks[channelId] = Date.now() + 10 * 60 * 1000;
 
-        if (!lastId && !messages.messages.length) {
-            const topId = messages.messages.length ? messages.messages[0].id : messages.lastId;
-            tonfig.set(['spider', 'lastIds', channelId], topId);
-            await tonfig.save();
+            await queueUpdatedComments(channelId);
+        }
+
+        // 定期重新检查近期信息是否被编辑或删除，同样等队列下载完再检查
+        if (!waitQueue[channelId].messages.length && editTracker && Date.now() >= (editChecks[channelId] || 0)) {
+            editChecks[channelId] = Date.now() + 30 * 60 * 1000;
+
+            await queueEditedMessages(channelId);
+        }
+
+        // 实时模式下已追上最新信息的频道不再轮询
+        if (realtimeWatcher && realtimeWatcher.isLive(channelId)) continue;
+
+        const { since, until } = getChannelPeriod(channelId);
+
+        // 跳过起始时间之前的历史信息
+        if (since && !(channelId in backfillStarts)) {
+            backfillStarts[channelId] = await getMessageIdBefore(client, channelId, since);
         }
 
-        for (const message of messages.messages) {
-            waitQueue[channelId].messages.push(message);
+        const sinceId = since ? backfillStarts[channelId] : 0;
+
+        // 队列中的信息还没下载，从已抓取到的位置继续
+        const cursors = waitQueue[channelId].cursors;
+
+        const topicIds = channel.forum ? getSelectedTopics(channelId) : [];
+
+        /**
+         * 只同步部分话题时，每个话题单独抓取并保存抓取位置
+         * 后面新增的话题只会从头抓取该话题
+         */
+        if (topicIds.length) {
+            const finishedTopics = finishedTopicsOf(channelId);
+            const caughtUp = new Set<string>();
+
+            while (waitQueue[channelId].messages.length < bufferSize) {
+                const topicId = topicIds.find(v => !finishedTopics.has(v) && !caughtUp.has(v));
+
+                if (!topicId) break;
+
+                // 话题的信息都在创建话题的信息之后
+                const topicLastId = Math.max(
+                    tonfig.get<number>(['spider', 'topicLastIds', channelId, topicId], 0),
+                    cursors[topicId] || 0,
+                    Number(topicId),
+                    sinceId
+                );
+
+                // 话题单独配置的文件类型优先
+                const topicMedias = tonfig.get<string>(['spider', 'topicMedias', channelId, topicId], '');
+                const topicMediasArr = topicMedias ? `${topicMedias}`.split(',').map(v => v.trim()) : mediasArr;
+
+                let topicMessages: Api.MessageService[];
+                let complete: boolean;
+
+                if (canSearchMedia(channel, topicMediasArr)) {
+                    ({ messages: topicMessages, complete } = await mediaSearch.fetchMessages(channelId, topicMediasArr, topicLastId, limit, Number(topicId)));
+                } else {
+                    topicMessages = await getTopicMessages(client, channelId, Number(topicId), topicLastId, limit);
+                    complete = topicMessages.length < limit;
+                }
+
+                for (const message of topicMessages) {
+                    message['topicId'] = topicId;
+                }
+
+                if (topicMessages.length) {
+                    cursors[topicId] = topicMessages[topicMessages.length - 1].id;
+                }
+
+                if (await queueChannelMessages(channelId, topicMessages, until)) {
+                    finishedTopics.add(topicId);
+                } else if (complete) {
+                    caughtUp.add(topicId);
+                }
+            }
+
+            if (topicIds.every(v => finishedTopics.has(v))) {
+                finishChannel(channelId, channelTitle);
+            }
 
-            execQueue.push();
+            continue;
+        }
+
+        while (waitQueue[channelId].messages.length < bufferSize) {
+            const lastId = Math.max(tonfig.get(['spider', 'lastIds', channelId], 0), cursors[''] || 0, sinceId);
 
-            // 消息评论
-            if (message.replies?.replies && message.replies?.channelId) {
-                const result = await client.invoke(
-                    new Api.messages.GetReplies({
-                    peer: message.peerId,
-                    msgId: message.id,
-                    limit: 2057604,
-                    })
-                ).catch(_ => null) as Api.messages.ChannelMessages;
+            // 只搜索带有需要下载的文件的信息，跳过纯文字信息
+            if (lastId && canSearchMedia(channel, mediasArr)) {
+                // 搜索前先取最新信息id，搜索期间发出的信息会被搜索到或由实时更新推送
+                const headId = realtimeWatcher ? await mediaSearch.getHeadId(channelId) : 0;
 
-                if (result && result.messages?.length) {
-                    const comments = result.messages.reverse();
+                const result = await mediaSearch.fetchMessages(channelId, mediasArr, lastId, limit);
 
-                    for (const comment of comments) {
-                        waitQueue[channelId].messages.push(comment as Api.MessageService);
+                if (result.messages.length) {
+                    cursors[''] = result.messages[result.messages.length - 1].id;
+                }
 
-                        comment['comment'] = true;
+                if (await queueChannelMessages(channelId, result.messages, until)) {
+                    finishChannel(channelId, channelTitle);
+                    break;
+                }
 
-                        execQueue.push();
+                if (result.complete) {
+                    if (realtimeWatcher) {
+                        realtimeWatcher.markLive(channelId, Math.max(headId, cursors[''] || lastId));
                     }
+                    break;
+                }
+
+                continue;
+            }
+
+            // 起始时间之前没有信息时，从头采集到的就是起始时间之后的信息
+            const newStrategy = since ? -1 : getNewStrategy(channelId);
+
+            const messages = await getChannelMessages(client, channelId, lastId, limit, newStrategy);
+
+            if (!lastId && !messages.messages.length) {
+                const topId = messages.messages.length ? messages.messages[0].id : messages.lastId;
+                tonfig.set(['spider', 'lastIds', channelId], topId);
+                await tonfig.save();
+            }
+
+            if (messages.messages.length) {
+                cursors[''] = messages.messages[messages.messages.length - 1].id;
+            }
+
+            if (await queueChannelMessages(channelId, messages.messages, until)) {
+                finishChannel(channelId, channelTitle);
+                break;
+            }
+
+            // 新群组按历史信息采集策略获取的第一批信息，之后按位置继续抓取
+            if (!lastId) {
+                if (!messages.messages.length) break;
+
+                continue;
+            }
+
+            // 已经抓取到最新的信息，之后由实时更新推送新信息
+            if (messages.messages.length < limit) {
+                if (realtimeWatcher) {
+                    realtimeWatcher.markLive(channelId, messages.lastId);
                 }
+                break;
             }
         }
     }
 }
 
+/**
+ * 把频道的信息（以及信息的评论）加入下载队列
+ * @param until 超过此时间的信息不再采集
+ * @returns 是否已采集到结束时间
+ */
+async function queueChannelMessages(channelId: string, messages: Api.MessageService[], until: number) {
+    for (const message of messages) {
+        // 已超过结束时间，后面的信息都不再采集
+        if (until && message.date > until) {
+            return true;
+        }
+
+        waitQueue[channelId].messages.push(message);
+
+        execQueue.push();
+
+        // 消息评论（有关联讨论组的帖子）
+        if (message.replies?.channelId && commentTracker && isCommentsEnabled(channelId)) {
+            await queueComments(channelId, message as unknown as Api.Message);
+        }
+    }
+
+    return false;
+}
+
+/**
+ * 新群组的历史信息采集策略，`_` 为没有单独配置的频道的默认值
+ */
+function getNewStrategy(channelId: string) {
+    return Number(tonfig.get<number>(['spider', 'newStrategy', channelId], null) ?? tonfig.get<number>(['spider', 'newStrategy', '_'], -1));
+}
+
+/**
+ * 是否用搜索只获取带文件的信息
+ * 有评论并且采集评论的频道不使用，否则纯文字帖子的评论会被漏掉
+ */
+function canSearchMedia(channel: typeof channelInfos[number], medias: string[]) {
+    return !!mediaSearch && mediaSearch.isSupported(medias) && !(channel.comments && commentTracker && isCommentsEnabled(channel.id.toString()));
+}
+
+/**
+ * 评论开关，`_` 为没有单独配置的频道的默认值
+ */
+function isCommentsEnabled(channelId: string) {
+    return !!(tonfig.get<boolean>(['spider', 'comments', channelId], null) ?? tonfig.get<boolean>(['spider', 'comments', '_'], true));
+}
+
+/**
+ * 把帖子上次之后的新评论加入下载队列
+ */
+async function queueComments(channelId: string, post: Api.Message) {
+    const comments = await commentTracker.fetchComments(channelId, post).catch(error => {
+        // 评论抓取位置没有变化，之后检查新评论时会重新获取
+        logger.warn(`获取频道 ${waitQueue[channelId].channelTitle} 帖子 ${post.id} 的评论失败：${error}`);
+
+        return [] as Api.Message[];
+    });
+
+    for (const comment of comments) {
+        comment['comment'] = true;
+        comment['postId'] = post.id;
+
+        waitQueue[channelId].messages.push(comment as unknown as Api.MessageService);
+
+        execQueue.push();
+    }
+}
+
+/**
+ * 检查频道近期帖子的新评论
+ */
+async function queueUpdatedComments(channelId: string) {
+    const days = tonfig.get<number>('spider.commentWindowDays', 7);
+
+    if (!(days > 0)) return;
+
+    const posts = await commentTracker.findUpdatedPosts(channelId, Math.floor(Date.now() / 1000) - days * 86400);
+
+    for (const post of posts) {
+        await queueComments(channelId, post);
+    }
+}
+
+/**
+ * 记录频道近期信息的编辑、删除，更换了文件的信息加入下载队列作为新版本下载
+ */
+async function queueEditedMessages(channelId: string) {
+    const days = tonfig.get<number>('spider.editWindowDays', 3);
+
+    if (!(days > 0)) return;
+
+    const channelTitle = waitQueue[channelId].channelTitle;
+
+    const result = await editTracker.scan(channelId, Math.floor(Date.now() / 1000) - days * 86400).catch(error => {
+        logger.warn(`检查频道 ${channelTitle} 的信息编辑失败：${error}`);
+
+        return null;
+    });
+
+    if (!result) return;
+
+    if (result.deleted.length) {
+        logger.info(`频道 ${channelTitle} 的信息已被删除：${result.deleted.join(', ')}`);
+    }
+
+    if (result.edited.length) {
+        logger.info(`频道 ${channelTitle} 的信息已被编辑：${result.edited.join(', ')}`);
+    }
+
+    for (const { message, topicId, version } of result.replaced) {
+        logger.info(`频道 ${channelTitle} 的信息 ${message.id} 更换了文件，下载为版本 ${version}`);
+
+        if (topicId) {
+            message['topicId'] = topicId;
+        }
+        message['version'] = version;
+
+        waitQueue[channelId].messages.push(message as unknown as Api.MessageService);
+
+        execQueue.push();
+    }
+}
+
+function finishChannel(channelId: string, channelTitle: string) {
+    waitQueue[channelId].finished = true;
+
+    logger.info(`频道 ${channelTitle} 已采集到结束时间 ${tonfig.get(['spider', 'until', channelId], '')}，停止采集`);
+}
+
+/**
+ * 实时模式下收到的新信息，直接加入下载队列
+ */
+function onRealtimeMessage(channelId: string, message: Api.Message) {
+    const channelInfo = waitQueue[channelId];
+
+    if (!channelInfo || channelInfo.finished) return;
+
+    channelInfo.cursors[''] = Math.max(channelInfo.cursors[''] || 0, message.id);
+
+    queueChannelMessages(channelId, [message as unknown as Api.MessageService], getChannelPeriod(channelId).until).then(finished => {
+        if (finished) {
+            finishChannel(channelId, channelInfo.channelTitle);
+        }
+    }, error => {
+        logger.error(`频道 ${channelInfo.channelTitle} 的实时信息 ${message.id} 加入队列失败：${error}`);
+    });
+}
+
 async function render() {
     // Don't render when in menu state
     if (uiStateManager.isInMenu()) {
@@ -674,6 +1151,8 @@ async function render() {
                 messages: null,
                 medias: null,
                 lastDownloadTime: 0,
+                finished: false,
+                cursors: {},
             });
         }
 
@@ -707,6 +1186,32 @@ async function render() {
         console.log(consoletable(tableData));
     }
 
+    {
+        const pauseText = getDiskSpacePauseText();
+
+        if (pauseText) {
+            console.log(`下载已暂停：${pauseText}`);
+        }
+    }
+
+    if (floodController) {
+        const { scale, paused } = floodController.getStatus();
+
+        if (scale < 1 || paused.length) {
+            const scopeNames = { download: '下载', history: '消息获取' };
+            const pausedText = paused.map(v => `${scopeNames[v.scope]}暂停 ${v.remaining}s`).join('，');
+
+            console.log(`FLOOD_WAIT 限流：并发降至 ${Math.round(scale * 100)}%${pausedText ? `，${pausedText}` : ''}`);
+        }
+    }
+
+    if (bandwidthLimiter) {
+        const rate = xbytes(bandwidthLimiter.getCurrentRate());
+        const limit = bandwidthLimiter.getLimit();
+
+        console.log(`当前速度：${rate}/s（${limit > 0 ? `限速 ${xbytes(limit)}/s` : '不限速'}）`);
+    }
+
     for (const log of logHistory) {
         console.log(log);
     }
@@ -730,15 +1235,41 @@ async function loadConfig() {
             concurrency: 5,
             channels: [],
             lastIds: {},
+            topics: {},
+            topicLastIds: {},
+            topicMedias: {},
+            comments: {
+                _: true,
+            },
+            commentWindowDays: 7,
+            trackEdits: false,
+            editWindowDays: 3,
+            newStrategy: {
+                _: -1,
+            },
+            since: {},
+            until: {},
             medias: {
                 _: "photo,video,audio,file",
             },
+            realtime: false,
+            mediaSearch: false,
             groupMessage: false,
             saveRawMessage: false,
             enableDownloadAcceleration: true,
             downloadThreads: 5,
             chunkSize: 524288,
             maxRetries: 3,
+            connectionsPerDc: 2,
+            maxRequestsPerDc: 16,
+            chunkTimeout: 60,
+            fileTimeout: 300,
+            verifyDownloads: false,
+            deduplication: "off",
+            maxBytesPerSecond: 0,
+            bandwidthSchedules: [],
+            minFreeSpace: 1073741824,
+            prefetchPages: 5,
         },
 
         filter: {
@@ -747,6 +1278,13 @@ async function loadConfig() {
                 video: "0-10737418240",
                 audio: "0-10737418240",
                 file:  "0-10737418240",
+                sticker: "0-10737418240",
+                gif:     "0-10737418240",
+                voice:   "0-10737418240",
+                round:   "0-10737418240",
+                webpage: "0-10737418240",
+                videoDuration: "",
+                videoResolution: "",
             },
             photo: {
                 _: "0-10737418240",
@@ -760,6 +1298,40 @@ async function loadConfig() {
             file: {
                 _: "0-10737418240",
             },
+            sticker: {
+                _: "0-10737418240",
+            },
+            gif: {
+                _: "0-10737418240",
+            },
+            voice: {
+                _: "0-10737418240",
+            },
+            round: {
+                _: "0-10737418240",
+            },
+            webpage: {
+                _: "0-10737418240",
+            },
+            videoDuration: {
+                _: "",
+            },
+            videoResolution: {
+                _: "",
+            },
+        },
+
+        retention: {
+            schedule: "0 * * * *",
+            maxBytes: {
+                _: 0,
+            },
+            maxAgeDays: {
+                _: 0,
+            },
+            keepLast: {
+                _: 0,
+            },
         },
 
         fileOrganization: {
@@ -767,6 +1339,18 @@ async function loadConfig() {
             createSubfolders: true,
         },
 
+        storage: {
+            type: "local",
+            s3: {
+                endpoint: "http://127.0.0.1:9000",
+                region: "us-east-1",
+                bucket: "",
+                accessKeyId: "",
+                secretAccessKey: "",
+                prefix: "",
+            },
+        },
+
         proxy: {
             ip: "127.0.0.1",
             port: 0,
@@ -810,6 +1394,35 @@ function getProxyConfig() {
     return { ip, port, username, password, MTProxy, secret, socksType, timeout };
 }
 
+function getStorageConfig() {
+    const type = tonfig.get<string>("storage.type", "local");
+    const s3: S3Options = {
+        endpoint: tonfig.get<string>("storage.s3.endpoint", ""),
+        region: tonfig.get<string>("storage.s3.region", "us-east-1"),
+        bucket: tonfig.get<string>("storage.s3.bucket", ""),
+        accessKeyId: tonfig.get<string>("storage.s3.accessKeyId", ""),
+        secretAccessKey: tonfig.get<string>("storage.s3.secretAccessKey", ""),
+        prefix: tonfig.get<string>("storage.s3.prefix", ""),
+    };
+
+    return { type, s3 };
+}
+
+function createStorageSink(): StorageSink {
+    const { type, s3 } = getStorageConfig();
+
+    if (type == 's3') {
+        if (!s3.endpoint || !s3.bucket) {
+            throw new Error('storage.type 为 s3 时必须配置 storage.s3.endpoint 和 storage.s3.bucket');
+        }
+
+        // 下载中的文件暂存在本地，完成后上传并删除
+        return new S3StorageSink(s3, DataDir() + '/.staging', logger);
+    }
+
+    return new LocalStorageSink(DataDir());
+}
+
 function parseCommaSeparatedList(input: string): string[] {
     if (!input || !input.trim()) return [];
     return input.split(',').map(id => id.trim()).filter(id => id);
@@ -887,13 +1500,23 @@ async function initializeGroupSelection() {
     }
     
     tonfig.set('spider.channels', selectedIds);
+
+    await configureTopics(selectedIds);
+
+    const newStrategy = await menuSystem.selectNewStrategy();
+
+    // 已经采集过的群组从断点继续，不受影响
+    for (const id of selectedIds) {
+        tonfig.set(['spider', 'newStrategy', id], newStrategy);
+    }
+
     await tonfig.save();
     
     logger.info('');
     menuSystem.showSuccess(`已保存 ${selectedIds.length} 个群组到配置文件`);
     
     // Set default media types
-    const defaultMediaTypes = await menuSystem.selectFileTypes(['photo', 'video', 'audio', 'file']);
+    const defaultMediaTypes = await menuSystem.selectFileTypes(DEFAULT_MEDIA_TYPES);
     if (defaultMediaTypes.length > 0) {
         tonfig.set(['spider', 'medias', '_'], defaultMediaTypes.join(','));
         await tonfig.save();
@@ -930,6 +1553,15 @@ async function addGroupsToSync() {
     
     const newChannels = [...currentChannels, ...selectedIds];
     tonfig.set('spider.channels', newChannels);
+
+    await configureTopics(selectedIds);
+
+    const newStrategy = await menuSystem.selectNewStrategy();
+
+    for (const id of selectedIds) {
+        tonfig.set(['spider', 'newStrategy', id], newStrategy);
+    }
+
     await tonfig.save();
     
     menuSystem.showSuccess(`成功添加 ${selectedIds.length} 个群组`);
@@ -976,6 +1608,59 @@ async function removeGroupsFromSync() {
     await menuSystem.waitForKeyPress();
 }
 
+/**
+ * 为选择的论坛群组选择要同步的话题
+ */
+async function configureTopics(channelIds: string[]) {
+    const forums = channelInfos.filter(ch => ch.forum && ch.topics.length && channelIds.includes(ch.id.toString()));
+
+    for (const forum of forums) {
+        const channelId = forum.id.toString();
+        const topics: TopicInfo[] = forum.topics.map(topic => ({
+            id: topic.id.toString(),
+            title: topic.title,
+        }));
+
+        const previous = getSelectedTopics(channelId);
+        const selected = await menuSystem.selectTopics(forum.title, topics, previous);
+
+        if (!selected.length) {
+            logger.warn(`论坛群组「${forum.title}」没有选择任何话题，保持原有设置`);
+            continue;
+        }
+
+        // 全选时同步所有话题，包括之后新建的话题
+        if (selected.length == topics.length) {
+            tonfig.set(['spider', 'topics', channelId], []);
+
+            // 改回同步所有话题时，从之前各话题中最落后的位置继续，而不是进入话题模式前的频道位置
+            const topicLastIds = previous.map(v => tonfig.get<number>(['spider', 'topicLastIds', channelId, v], 0)).filter(v => v > 0);
+
+            if (topicLastIds.length) {
+                tonfig.set(['spider', 'lastIds', channelId], Math.min(...topicLastIds));
+
+                if (waitQueue[channelId]) {
+                    delete waitQueue[channelId].cursors[''];
+                }
+            }
+            continue;
+        }
+
+        for (const topicId of selected) {
+            // 之前同步所有话题时，这些话题已经抓取到频道的位置
+            if (!previous.length && !tonfig.get<number>(['spider', 'topicLastIds', channelId, topicId], 0)) {
+                tonfig.set(['spider', 'topicLastIds', channelId, topicId], tonfig.get<number>(['spider', 'lastIds', channelId], 0));
+            }
+        }
+
+        tonfig.set(['spider', 'topics', channelId], selected);
+    }
+
+    await tonfig.save();
+
+    return forums.length;
+}
+
 async function reinitializeGroups() {
     const confirmed = await menuSystem.confirmAction('确定要清空当前配置并重新选择所有群组吗？');
     if (!confirmed) {
@@ -1013,6 +1698,14 @@ async function handleGroupManagement() {
             case 'C':
                 await reinitializeGroups();
                 break;
+            case 'T':
+                if (await configureTopics(currentChannels)) {
+                    menuSystem.showSuccess('话题设置已保存');
+                } else {
+                    menuSystem.showError('同步列表中没有论坛群组');
+                }
+                await menuSystem.waitForKeyPress();
+                break;
             case '0':
                 return;
         }
@@ -1020,7 +1713,7 @@ async function handleGroupManagement() {
 }
 
 async function handleFileTypeConfiguration() {
-    const currentMediaTypes = tonfig.get<string>(['spider', 'medias', '_'], 'photo,video,audio,file');
+    const currentMediaTypes = tonfig.get<string>(['spider', 'medias', '_'], DEFAULT_MEDIA_TYPES.join(','));
     const currentTypes = currentMediaTypes.split(',').map(t => t.trim());
     
     const selectedTypes = await menuSystem.selectFileTypes(currentTypes);
@@ -1112,6 +1805,82 @@ async function checkChannelConfig() {
     }
 }
 
+/**
+ * 启动时检查上次未下载完成的临时文件
+ * 
+ * 临时文件会在重新下载同一条消息时断点续传，这里只做报告
+ */
+async function reportPartialDownloads() {
+    const partials = await findPartialDownloads(DataDir());
+
+    if (!partials.length) return;
+
+    logger.warn(`发现 ${partials.length} 个未完成的下载（将在重新下载时继续）：`);
+
+    for (const partial of partials) {
+        logger.warn(partial.replace(DataDir() + '/', ''));
+    }
+}
+
+function getDiskSpacePauseText(): string | null {
+    if (!diskSpaceGuard) return null;
+
+    const { paused, free, required } = diskSpaceGuard.getStatus();
+
+    return paused ? `磁盘空间不足（剩余 ${xbytes(free)}，需要 ${xbytes(required)}），空间释放后自动继续` : null;
+}
+
+async function pruneRetention() {
+    const pruned = await retentionManager.prune();
+
+    if (!pruned.length) return;
+
+    const bytes = pruned.reduce((sum, v) => sum + v.size, 0);
+
+    logger.info(`保留策略清理了 ${pruned.length} 个文件，释放 ${xbytes(bytes)}`);
+}
+
+function reportDeduplication() {
+    if (!deduplicator) return;
+
+    const savings = deduplicator.getSavings();
+
+    if (!savings.length) return;
+
+    const total = savings.reduce((sum, v) => sum + v.bytes, 0);
+
+    logger.info(`去重共节省 ${xbytes(total)}：`);
+
+    for (const saving of savings) {
+        const title = channelInfos.find(v => v.id.toString() == saving.channelId)?.title || saving.channelId;
+
+        logger.info(`${title}：${saving.files} 个重复文件，节省 ${xbytes(saving.bytes)}`);
+    }
+}
+
+/**
+ * 列出未通过或无法校验的文件（`verification` 表）
+ */
+function reportUnverifiedDownloads() {
+    if (!database || !tonfig.get<boolean>('spider.verifyDownloads', false)) return;
+
+    const rows = database.prepareGetAll("SELECT savePath FROM verification WHERE verified = 0 ORDER BY date DESC") as { savePath: string }[];
+
+    if (!rows.length) return;
+
+    const maxListed = 20;
+
+    logger.warn(`有 ${rows.length} 个文件未经校验（校验失败或 Telegram 未提供哈希）：`);
+
+    for (const row of rows.slice(0, maxListed)) {
+        logger.warn(row.savePath);
+    }
+
+    if (rows.length > maxListed) {
+        logger.warn(`……还有 ${rows.length - maxListed} 个，完整列表见 verification 表`);
+    }
+}
+
 let isDownloading = false;
 
 async function startDownload() {
@@ -1135,6 +1904,12 @@ async function startDownload() {
         uiTimer.resume();
     }
     
+    // 实时模式：追上最新信息后由 Telegram 推送新信息，断线或漏掉更新时回退到按 lastIds 轮询补齐
+    if (tonfig.get<boolean>("spider.realtime", false) && !realtimeWatcher) {
+        realtimeWatcher = new RealtimeWatcher(client, allowChannels, onRealtimeMessage, logger);
+        realtimeWatcher.start();
+    }
+
     if (!mediaSpiderTimer) {
         mediaSpiderTimer = Cron("*/10 * * * * *", {
             name: 'mediaSpider',
@@ -1146,6 +1921,7 @@ async function startDownload() {
     const concurrency = tonfig.get<number>("spider.concurrency", 5);
     const groupMessage = tonfig.get<boolean>("spider.groupMessage", false);
     const saveRawMessage = tonfig.get<boolean>("spider.saveRawMessage", false);
+    const verifyDownloads = tonfig.get<boolean>("spider.verifyDownloads", false);
     
     if (!execQueue) {
         execQueue = queue(async function(task, callback) {
@@ -1165,16 +1941,28 @@ async function startDownload() {
             const message = channelInfo.messages[0];
             const mediasArr = channelInfo.medias;
 
-            await downloadChannelMedia(client, channelId, message, channelInfo, mediasArr, groupMessage, saveRawMessage).then(async () => {
+            await downloadChannelMedia(client, channelId, message, channelInfo, mediasArr, groupMessage, saveRawMessage, verifyDownloads).then(async () => {
                 channelInfo.messages.shift();
 
-                if (!message['comment']) {
+                if (message['version']) {
+                    // 重新下载的编辑版本，不影响抓取位置
+                } else if (message['topicId']) {
+                    // 下载成功，保存当前话题位置
+                    tonfig.set(['spider', 'topicLastIds', channelId, message['topicId']], message.id);
+                    await tonfig.save();
+                } else if (message['comment']) {
+                    // 下载成功，保存当前帖子的评论位置
+                    commentTracker.advance(channelId, message['postId'], message.id);
+                } else {
                     // 下载成功，保存当前频道位置
                     tonfig.set(['spider', 'lastIds', channelId], message.id);
                     await tonfig.save();
                 }
-            }, () => {
-                // 下载失败，啥也不用管，后面根据队列自动重试
+            }, (error) => {
+                // 下载失败，后面根据队列自动重试
+                if (error instanceof DownloadStalledError) {
+                    logger.warn(`频道 ${channelInfo.channelTitle}（${channelId}）的消息 ${message.id} 下载停滞，已取消并稍后重试：${error.message}`);
+                }
             }).finally(() => {
                 channelInfo.downloading = false;
                 channelInfo.lastDownloadTime = Date.now();
@@ -1206,6 +1994,11 @@ async function stopDownload() {
         mediaSpiderTimer.stop();
         mediaSpiderTimer = null;
     }
+
+    if (realtimeWatcher) {
+        realtimeWatcher.stop();
+        realtimeWatcher = null;
+    }
     
     if (uiTimer && !uiTimer['_states'].paused) {
         uiTimer.pause();
@@ -1221,18 +2014,51 @@ async function main() {
     mkdirSync(DataDir(), { recursive: true });
 
     await checkConfig();
+
+    await reportPartialDownloads();
     
-    menuSystem = new MenuSystem(logger, () => isDownloading);
+    diskSpaceGuard = new DiskSpaceGuard(DataDir(), tonfig.get<number>("spider.minFreeSpace", 1073741824), logger);
+
+    menuSystem = new MenuSystem(logger, () => isDownloading, () => getDiskSpacePauseText());
     
+    storageSink = createStorageSink();
+
+    logger.info(`文件保存位置：${storageSink.describe()}`);
+
     // Initialize folder structure manager
-    folderStructureManager = new FolderStructureManager(tonfig);
+    folderStructureManager = new FolderStructureManager(tonfig, storageSink);
+
+    messageFilter = new MessageFilter(tonfig, logger);
 
     const saveRawMessage = tonfig.get<boolean>("spider.saveRawMessage", false);
+    const verifyDownloads = tonfig.get<boolean>("spider.verifyDownloads", false);
+    const deduplication = tonfig.get<DeduplicationMode>("spider.deduplication", "off");
 
-    if (saveRawMessage) {
+    // 评论需要在数据库中记录每个帖子的评论抓取位置
+    const archiveComments = Object.values(tonfig.get<Record<string, boolean>>('spider.comments', {})).some(v => !!v);
+
+    if (saveRawMessage || verifyDownloads || deduplication != 'off' || archiveComments) {
         database = Db.db();
     }
 
+    if (deduplication != 'off') {
+        deduplicator = new Deduplicator(database, storageSink, deduplication, logger);
+    }
+
+    if (saveRawMessage) {
+        retentionManager = new RetentionManager(database, tonfig, storageSink, logger);
+
+        if (!retentionTimer) {
+            retentionTimer = Cron(tonfig.get<string>("retention.schedule", "0 * * * *"), {
+                name: 'retention',
+                protect: true,
+                catch: workerErrorHandler,
+            }, async () => await pruneRetention());
+        }
+    } else if (['maxBytes', 'maxAgeDays', 'keepLast'].some(v => Object.values(tonfig.get<object>(['retention', v], {})).some(Number))) {
+        logger.warn('保留策略需要开启 spider.saveRawMessage 才能生效');
+    }
+
     let { apiId, apiHash, account, session, deviceModel, systemVersion, appVersion, langCode, systemLangCode } = getAccountConfig();
 
     const proxy = getProxyConfig();
@@ -1292,13 +2118,47 @@ async function main() {
         downloadThreads: tonfig.get<number>('spider.downloadThreads', 5),
         chunkSize: tonfig.get<number>('spider.chunkSize', 524288),
         maxRetries: tonfig.get<number>('spider.maxRetries', 3),
+        verifyDownloads: tonfig.get<boolean>('spider.verifyDownloads', false),
+        connectionsPerDc: tonfig.get<number>('spider.connectionsPerDc', 2),
+        maxRequestsPerDc: tonfig.get<number>('spider.maxRequestsPerDc', 16),
+        chunkTimeout: tonfig.get<number>('spider.chunkTimeout', 60),
+        fileTimeout: tonfig.get<number>('spider.fileTimeout', 300),
     };
-    acceleratedDownloader = new AcceleratedDownloader(client, downloadConfig, logger);
+    bandwidthLimiter = new BandwidthLimiter(
+        tonfig.get<number>('spider.maxBytesPerSecond', 0),
+        tonfig.get<string[]>('spider.bandwidthSchedules', []),
+    );
+    floodController = new FloodController(logger);
+
+    if (archiveComments) {
+        commentTracker = new CommentTracker(client, database, floodController, logger);
+    }
+
+    if (tonfig.get<boolean>('spider.trackEdits', false)) {
+        if (saveRawMessage) {
+            editTracker = new EditTracker(client, database, floodController, logger);
+        } else {
+            logger.warn('编辑/删除追踪需要开启 spider.saveRawMessage 才能生效');
+        }
+    }
+
+    if (tonfig.get<boolean>('spider.mediaSearch', false)) {
+        mediaSearch = new MediaSearch(client, floodController, logger);
+    }
+
+    acceleratedDownloader = new AcceleratedDownloader(client, downloadConfig, logger, bandwidthLimiter, floodController, storageSink, deduplicator);
 
     logger.info('获取频道信息中...');
 
     channelInfos = await getChannelInfos(client);
 
+    // 之后的 FLOOD_WAIT 不再由 GramJS 各自休眠，统一交给 floodController 暂停所有相关任务
+    client.floodSleepThreshold = 0;
+
+    reportDeduplication();
+
+    reportUnverifiedDownloads();
+
     channelTable = channelInfos.map(channel => {
         return {
             "ID": channel.id.toString(),
@@ -0,0 +1,19 @@
+PRAGMA foreign_keys = false;
+
+-- ----------------------------
+-- Table structure for media
+-- ----------------------------
+DROP TABLE IF EXISTS "media";
+CREATE TABLE "media" (
+  "mediaId"   TEXT NOT NULL,
+  "savePath"  TEXT NOT NULL,
+  "channelId" TEXT NOT NULL,
+  "date"      DATE NOT NULL,
+  CONSTRAINT "mediaId" UNIQUE ("mediaId" ASC)
+);
+
+-- ----------------------------
+-- Records of media
+-- ----------------------------
+
+PRAGMA foreign_keys = true;
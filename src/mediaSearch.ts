@@ -0,0 +1,126 @@
+import { Api, TelegramClient } from 'telegram';
+import { Logger } from 'telegram/extensions/Logger';
+
+import { FloodController } from './floodController';
+import { MediaType } from './mediaTypes';
+
+/**
+ * Media Search
+ * Fetches only the media-bearing messages of a channel with `messages.Search`,
+ * so text-only history never has to be paged through
+ *
+ * Every selected media type needs its own search filter and every filter is a separate
+ * result list. A page is taken from each of them and merged, but a message is only returned
+ * once all lists have been read up to it, so the cursor (the newest returned id) never skips
+ * a message another filter hasn't reached yet.
+ */
+
+export interface MediaSearchResult {
+    // Oldest message first
+    messages: Api.MessageService[];
+    // Every filter returned its last page, there is nothing newer to fetch
+    complete: boolean;
+}
+
+// Types without a search filter (`sticker`) make the search unusable for a channel
+const FILTERS: Partial<Record<MediaType, () => Api.TypeMessagesFilter>> = {
+    photo: () => new Api.InputMessagesFilterPhotos(),
+    video: () => new Api.InputMessagesFilterVideo(),
+    audio: () => new Api.InputMessagesFilterMusic(),
+    file: () => new Api.InputMessagesFilterDocument(),
+    gif: () => new Api.InputMessagesFilterGif(),
+    voice: () => new Api.InputMessagesFilterVoice(),
+    round: () => new Api.InputMessagesFilterRoundVideo(),
+    webpage: () => new Api.InputMessagesFilterUrl(),
+};
+
+export class MediaSearch {
+    constructor(private client: TelegramClient, private flood: FloodController, private logger?: Logger) {}
+
+    /**
+     * Whether every one of the media types can be searched for
+     */
+    isSupported(types: string[]): boolean {
+        return types.length > 0 && types.every(v => !!FILTERS[v as MediaType]);
+    }
+
+    /**
+     * Media messages newer than the cursor
+     * @param topicId Only search the messages of this forum topic
+     */
+    async fetchMessages(channelId: string, types: string[], lastId: number, limit: number = 100, topicId?: number): Promise<MediaSearchResult> {
+        const pages: Api.MessageService[][] = [];
+
+        for (const filter of this.getFilters(types)) {
+            pages.push(await this.search(channelId, filter, lastId, limit, topicId));
+        }
+
+        // A full page may have more messages behind it, only messages up to its newest one are certain
+        const boundary = Math.min(...pages.filter(v => v.length >= limit).map(v => v[0].id));
+
+        const messages = new Map<number, Api.MessageService>();
+
+        for (const page of pages) {
+            for (const message of page) {
+                if (message.id > lastId && message.id <= boundary) messages.set(message.id, message);
+            }
+        }
+
+        if (messages.size && this.logger) {
+            this.logger.debug(`Found ${messages.size} media messages after ${lastId} in channel ${channelId}`);
+        }
+
+        return {
+            messages: [...messages.values()].sort((a, b) => a.id - b.id),
+            complete: !isFinite(boundary),
+        };
+    }
+
+    /**
+     * Id of the newest message of a channel, whatever it carries
+     * A search only sees media, a channel can't be live from the last media message if text came after it
+     */
+    async getHeadId(channelId: string): Promise<number> {
+        const result = await this.flood.run('history', () => this.client.invoke(
+            new Api.messages.GetHistory({
+                peer: channelId,
+                limit: 1,
+            })
+        )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+        return result.messages.length ? result.messages[0].id : 0;
+    }
+
+    private getFilters(types: string[]): Api.TypeMessagesFilter[] {
+        // Photos and videos share one list instead of two
+        if (types.includes('photo') && types.includes('video')) {
+            types = [...types.filter(v => v != 'photo' && v != 'video'), 'photo_video'];
+        }
+
+        return types.map(v => v == 'photo_video' ? new Api.InputMessagesFilterPhotoVideo() : FILTERS[v as MediaType]());
+    }
+
+    /**
+     * @returns Newest message first
+     */
+    private async search(channelId: string, filter: Api.TypeMessagesFilter, lastId: number, limit: number, topicId?: number): Promise<Api.MessageService[]> {
+        const result = await this.flood.run('history', () => this.client.invoke(
+            new Api.messages.Search({
+                peer: channelId,
+                q: '',
+                filter: filter,
+                topMsgId: topicId,
+                minDate: 0,
+                maxDate: 0,
+                // Same as `GetHistory`, a negative offset pages towards newer messages
+                offsetId: lastId || 1,
+                addOffset: -1 - limit,
+                limit: limit,
+                maxId: 0,
+                minId: lastId,
+            })
+        )) as Exclude<Api.messages.TypeMessages, Api.messages.MessagesNotModified>;
+
+        return result.messages as Api.MessageService[];
+    }
+}
@@ -0,0 +1,97 @@
+import { Api } from 'telegram';
+
+/**
+ * Media Types
+ * Classifies the media of a message into the types selectable in `spider.medias`
+ *
+ * Every message has at most one media, the most specific type wins:
+ * a voice note is `voice` rather than `audio`, a GIF is `gif` rather than `video`,
+ * and any other document (whatever attributes it carries) is a `file`
+ */
+
+export type MediaType = 'photo' | 'video' | 'audio' | 'file' | 'sticker' | 'gif' | 'voice' | 'round' | 'webpage';
+
+export interface MediaTypeInfo {
+    type: MediaType;
+    label: string;
+    // Used when neither the MIME type nor the filename tells the extension
+    defaultExtension: string;
+}
+
+export const MEDIA_TYPES: MediaTypeInfo[] = [
+    { type: 'photo',   label: '图片',     defaultExtension: 'jpg' },
+    { type: 'video',   label: '视频',     defaultExtension: 'mp4' },
+    { type: 'audio',   label: '音频',     defaultExtension: 'mp3' },
+    { type: 'file',    label: '文件',     defaultExtension: 'dat' },
+    { type: 'sticker', label: '贴纸',     defaultExtension: 'webp' },
+    { type: 'gif',     label: 'GIF动图',  defaultExtension: 'mp4' },
+    { type: 'voice',   label: '语音',     defaultExtension: 'ogg' },
+    { type: 'round',   label: '圆形视频', defaultExtension: 'mp4' },
+    { type: 'webpage', label: '网页预览', defaultExtension: 'jpg' },
+];
+
+/**
+ * Types downloaded when a channel has no `spider.medias` of its own
+ */
+export const DEFAULT_MEDIA_TYPES: MediaType[] = ['photo', 'video', 'audio', 'file'];
+
+// MIME types mimetics doesn't know
+const EXTENSIONS: Record<string, string> = {
+    'application/x-tgsticker': 'tgs',
+};
+
+export function getMediaType(media: Api.TypeMessageMedia): MediaType | null {
+    if (media instanceof Api.MessageMediaPhoto) {
+        return media.photo instanceof Api.Photo ? 'photo' : null;
+    }
+
+    if (media instanceof Api.MessageMediaWebPage) {
+        return unwrapMedia(media) ? 'webpage' : null;
+    }
+
+    if (!(media instanceof Api.MessageMediaDocument) || !(media.document instanceof Api.Document)) {
+        return null;
+    }
+
+    const attributes = media.document.attributes;
+
+    const video = attributes.find(v => v instanceof Api.DocumentAttributeVideo) as Api.DocumentAttributeVideo;
+    const audio = attributes.find(v => v instanceof Api.DocumentAttributeAudio) as Api.DocumentAttributeAudio;
+
+    if (attributes.some(v => v instanceof Api.DocumentAttributeSticker)) return 'sticker';
+    if (attributes.some(v => v instanceof Api.DocumentAttributeAnimated)) return 'gif';
+    if (audio && audio.voice) return 'voice';
+    if (video && video.roundMessage) return 'round';
+    if (video) return 'video';
+    if (audio) return 'audio';
+
+    return 'file';
+}
+
+/**
+ * The photo/document a web page preview carries, as a regular message media
+ * @returns Other media as is, null for a preview without photo or document
+ */
+export function unwrapMedia(media: Api.TypeMessageMedia): Api.TypeMessageMedia | null {
+    if (!(media instanceof Api.MessageMediaWebPage)) return media;
+
+    const webpage = media.webpage;
+
+    if (!(webpage instanceof Api.WebPage)) return null;
+
+    if (webpage.document instanceof Api.Document) {
+        return new Api.MessageMediaDocument({ document: webpage.document });
+    }
+
+    if (webpage.photo instanceof Api.Photo) {
+        return new Api.MessageMediaPhoto({ photo: webpage.photo });
+    }
+
+    return null;
+}
+
+export function getDefaultExtension(type: MediaType, mimeType?: string): string {
+    if (mimeType && EXTENSIONS[mimeType]) return EXTENSIONS[mimeType];
+
+    return MEDIA_TYPES.find(v => v.type == type).defaultExtension;
+}
@@ -1,6 +1,7 @@
 import inquirer from 'inquirer';
 import { Logger } from 'telegram/extensions/Logger';
 import { uiStateManager } from './uiStateManager';
+import { MEDIA_TYPES } from './mediaTypes';
 
 export interface GroupInfo {
     id: string;
@@ -8,8 +9,16 @@ export interface GroupInfo {
     username?: string;
 }
 
+export interface TopicInfo {
+    id: string;
+    title: string;
+}
+
 export class MenuSystem {
-    constructor(private logger: Logger, private getDownloadStatus?: () => boolean) {}
+    /**
+     * @param getPauseReason Why downloading is paused right now, null if it isn't
+     */
+    constructor(private logger: Logger, private getDownloadStatus?: () => boolean, private getPauseReason?: () => string | null) {}
 
     /**
      * Wrap inquirer prompts with UI state management
@@ -22,9 +31,12 @@ export class MenuSystem {
         return this.withMenuState(async () => {
             console.clear();
             const isDownloading = this.getDownloadStatus ? this.getDownloadStatus() : false;
+            const pauseReason = this.getPauseReason ? this.getPauseReason() : null;
             
             this.logger.info('===== Telegram 媒体下载器 =====');
-            if (isDownloading) {
+            if (isDownloading && pauseReason) {
+                this.logger.info(`状态: 🟡 已暂停 - ${pauseReason}\n`);
+            } else if (isDownloading) {
                 this.logger.info('状态: 🟢 下载中...\n');
             } else {
                 this.logger.info('状态: ⚪ 空闲\n');
@@ -75,6 +87,7 @@ export class MenuSystem {
                         { name: '[A] 添加群组到同步列表', value: 'A' },
                         { name: '[R] 移除某个群组', value: 'R' },
                         { name: '[C] 重新全选群组（重新初始化）', value: 'C' },
+                        { name: '[T] 选择论坛群组的话题', value: 'T' },
                         { name: '[0] 返回主菜单', value: '0' },
                     ],
                 },
@@ -112,6 +125,29 @@ export class MenuSystem {
         });
     }
 
+    /**
+     * @param preselectedIds Topics currently archived, empty for all topics
+     */
+    async selectTopics(groupTitle: string, topics: TopicInfo[], preselectedIds: string[] = []): Promise<string[]> {
+        return this.withMenuState(async () => {
+            const { selectedIds } = await inquirer.prompt([
+                {
+                    type: 'checkbox',
+                    name: 'selectedIds',
+                    message: `请选择论坛群组「${groupTitle}」要同步的话题 (按空格选择，按 Enter 确认):`,
+                    choices: topics.map(topic => ({
+                        name: `${topic.title} (${topic.id})`,
+                        value: topic.id,
+                        checked: !preselectedIds.length || preselectedIds.includes(topic.id),
+                    })),
+                    pageSize: 15,
+                },
+            ]);
+
+            return selectedIds;
+        });
+    }
+
     async selectGroupsToRemove(currentGroups: GroupInfo[]): Promise<string[]> {
         return this.withMenuState(async () => {
             if (currentGroups.length === 0) {
@@ -146,16 +182,55 @@ export class MenuSystem {
                     type: 'checkbox',
                     name: 'selectedTypes',
                     message: '请选择要下载的文件类型 (按空格选择，按 Enter 确认):',
+                    choices: MEDIA_TYPES.map(v => ({
+                        name: `${v.type.padEnd(8)}(${v.label})`,
+                        value: v.type,
+                        checked: currentTypes.includes(v.type),
+                    })),
+                },
+            ]);
+
+            return selectedTypes;
+        });
+    }
+
+    /**
+     * How much history to download for newly added groups
+     * @returns -1 for all history, 0 for none, N for the last N messages
+     */
+    async selectNewStrategy(): Promise<number> {
+        return this.withMenuState(async () => {
+            const { strategy, count } = await inquirer.prompt([
+                {
+                    type: 'list',
+                    name: 'strategy',
+                    message: '请选择新群组的历史信息采集方式:',
                     choices: [
-                        { name: 'photo  (图片)', value: 'photo', checked: currentTypes.includes('photo') },
-                        { name: 'video  (视频)', value: 'video', checked: currentTypes.includes('video') },
-                        { name: 'audio  (音频)', value: 'audio', checked: currentTypes.includes('audio') },
-                        { name: 'file   (文件)', value: 'file', checked: currentTypes.includes('file') },
+                        { name: '采集全部历史信息', value: 'all' },
+                        { name: '不采集历史信息，只采集之后的新信息', value: 'none' },
+                        { name: '只采集最近的若干条信息', value: 'last' },
                     ],
                 },
+                {
+                    type: 'input',
+                    name: 'count',
+                    message: '采集最近多少条信息:',
+                    default: '500',
+                    when: (answers) => answers.strategy == 'last',
+                    validate: (input) => {
+                        const num = parseInt(input, 10);
+                        if (isNaN(num) || num <= 0) {
+                            return '请输入有效的正整数';
+                        }
+                        return true;
+                    },
+                },
             ]);
 
-            return selectedTypes;
+            if (strategy == 'none') return 0;
+            if (strategy == 'last') return parseInt(count, 10);
+
+            return -1;
         });
     }
 
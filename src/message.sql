@@ -16,6 +16,9 @@ CREATE TABLE "message" (
   "fileName"   TEXT NOT NULL,
   "savePath"   TEXT NOT NULL,
   "date"       DATE NOT NULL,
+  "version"    INTEGER NOT NULL DEFAULT 0,
+  "event"      TEXT NOT NULL DEFAULT '',
+  "eventDate"  DATE NOT NULL DEFAULT 0,
   CONSTRAINT "id" UNIQUE ("id" ASC),
   CONSTRAINT "uniqueId" UNIQUE ("uniqueId" ASC)
 );
@@ -0,0 +1,267 @@
+import { Tonfig } from '@liesauer/tonfig';
+import { Api } from 'telegram';
+import { Logger } from 'telegram/extensions/Logger';
+
+import { parseDate } from './functions';
+
+/**
+ * Message Filter
+ * Declarative include/exclude rules evaluated for every message before its media is downloaded
+ *
+ * Rules live in `filter.rules.<channelId>` (and `filter.rules.default` for every channel):
+ * - `exclude` rules skip a message as soon as one of them matches
+ * - if there are `include` rules, a message has to match at least one of them
+ *
+ * The criteria of a rule are combined with `match = "all"` (AND, default) or `match = "any"` (OR),
+ * nested groups can be written as `all = [{...}, {...}]` / `any = [{...}, {...}]`
+ *
+ * Rules are compiled once when the filter is created, a rule with an invalid pattern is logged and skipped
+ */
+
+export interface RuleCondition {
+    // Caption contains one of the keywords (case insensitive)
+    keywords?: string[];
+    // Caption matches one of the regular expressions, `/pattern/flags` or a plain pattern
+    regex?: string | string[];
+    // Message has one of the hashtags (with or without `#`)
+    hashtags?: string[];
+    // Filename matches one of the globs, e.g. `*.zip`
+    filename?: string[];
+    // MIME type matches one of the globs, e.g. `video/*`
+    mime?: string[];
+    // Sent by one of the user/channel ids
+    senders?: string[];
+    // Forwarded from one of the user/channel/chat ids
+    forwardedFrom?: string[];
+    // Message date range, `YYYY-MM-DD` or any date `Date` understands, both inclusive
+    since?: string;
+    until?: string;
+    match?: 'all' | 'any';
+    all?: RuleCondition[];
+    any?: RuleCondition[];
+}
+
+export interface FilterRule extends RuleCondition {
+    name?: string;
+    action?: 'include' | 'exclude';
+    // Only apply to these forum topics
+    topics?: string[];
+}
+
+type Criterion = (message: Api.Message) => boolean;
+
+interface CompiledRule {
+    label: string;
+    action: 'include' | 'exclude';
+    topics: string[];
+    matches: Criterion;
+}
+
+export class MessageFilter {
+    private rules = new Map<string, CompiledRule[]>();
+
+    constructor(private tonfig: Tonfig, private logger?: Logger) {
+        const scopes = this.tonfig.get<Record<string, FilterRule[]>>('filter.rules', {});
+
+        for (const scope of Object.keys(scopes || {})) {
+            this.rules.set(scope, this.compileRules(scope));
+        }
+    }
+
+    /**
+     * Evaluate the rules of a channel against a message
+     * @returns Why the message is skipped, null if it should be downloaded
+     */
+    check(channelId: string, topicId: string, message: Api.Message): string | null {
+        const rules = [
+            ...(this.rules.get(channelId) || []),
+            ...(this.rules.get('default') || []),
+        ].filter(rule => !rule.topics.length || rule.topics.includes(topicId));
+
+        for (const rule of rules) {
+            if (rule.action != 'include' && this.evaluate(rule, message)) {
+                return `matched exclude rule "${rule.label}"`;
+            }
+        }
+
+        const includes = rules.filter(rule => rule.action == 'include');
+
+        if (includes.length && !includes.some(rule => this.evaluate(rule, message))) {
+            return `matched none of the include rules (${includes.map(v => `"${v.label}"`).join(', ')})`;
+        }
+
+        return null;
+    }
+
+    /**
+     * A rule that fails on a message doesn't match it, the message is never stuck on a rule
+     */
+    private evaluate(rule: CompiledRule, message: Api.Message): boolean {
+        try {
+            return rule.matches(message);
+        } catch (error) {
+            if (this.logger) {
+                this.logger.warn(`Filter rule "${rule.label}" failed on message ${message.id}: ${error}`);
+            }
+
+            return false;
+        }
+    }
+
+    private compileRules(scope: string): CompiledRule[] {
+        const rules = this.tonfig.get<FilterRule[]>(['filter', 'rules', scope], []);
+        const compiled: CompiledRule[] = [];
+
+        if (!Array.isArray(rules)) return compiled;
+
+        rules.forEach((rule, index) => {
+            const label = rule.name || `filter.rules.${scope}[${index}]`;
+
+            try {
+                compiled.push({
+                    label,
+                    action: rule.action == 'include' ? 'include' : 'exclude',
+                    topics: (rule.topics || []).map(String),
+                    matches: this.compile(rule),
+                });
+            } catch (error) {
+                if (this.logger) {
+                    this.logger.warn(`Filter rule "${label}" is skipped: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        });
+
+        return compiled;
+    }
+
+    /**
+     * A condition without any criteria matches every message
+     * @throws SyntaxError if a pattern of the condition is invalid
+     */
+    private compile(condition: RuleCondition): Criterion {
+        const criteria = this.getCriteria(condition);
+
+        if (!criteria.length) return () => true;
+
+        return condition.match == 'any'
+            ? message => criteria.some(criterion => criterion(message))
+            : message => criteria.every(criterion => criterion(message));
+    }
+
+    private getCriteria(condition: RuleCondition): Criterion[] {
+        const criteria: Criterion[] = [];
+        const list = (value: string | string[]) => (Array.isArray(value) ? value : [value]).map(v => `${v}`);
+
+        if (condition.keywords && condition.keywords.length) {
+            const keywords = list(condition.keywords).map(v => v.toLowerCase());
+            criteria.push(message => {
+                const caption = (message.message || '').toLowerCase();
+                return keywords.some(v => caption.includes(v));
+            });
+        }
+
+        if (condition.regex && condition.regex.length) {
+            const patterns = list(condition.regex).map(v => compilePattern(v));
+            criteria.push(message => patterns.some(v => v.test(message.message || '')));
+        }
+
+        if (condition.hashtags && condition.hashtags.length) {
+            const hashtags = list(condition.hashtags).map(v => v.replace(/^#/, '').toLowerCase());
+            criteria.push(message => getHashtags(message).some(v => hashtags.includes(v)));
+        }
+
+        if (condition.filename && condition.filename.length) {
+            const globs = list(condition.filename).map(v => globToRegExp(v));
+            criteria.push(message => {
+                const filename = getFilename(message);
+                return !!filename && globs.some(v => v.test(filename));
+            });
+        }
+
+        if (condition.mime && condition.mime.length) {
+            const globs = list(condition.mime).map(v => globToRegExp(v));
+            criteria.push(message => {
+                const mimeType = message.file?.mimeType;
+                return !!mimeType && globs.some(v => v.test(mimeType));
+            });
+        }
+
+        if (condition.senders && condition.senders.length) {
+            const senders = list(condition.senders);
+            criteria.push(message => {
+                const senderId = getPeerId(message.fromId) || (message.senderId ? message.senderId.toString() : '');
+                return senders.includes(senderId);
+            });
+        }
+
+        if (condition.forwardedFrom && condition.forwardedFrom.length) {
+            const sources = list(condition.forwardedFrom);
+            criteria.push(message => {
+                const sourceId = getPeerId(message.fwdFrom?.fromId);
+                return !!sourceId && sources.includes(sourceId);
+            });
+        }
+
+        if (condition.since || condition.until) {
+            const since = condition.since ? parseDate(condition.since, false) : -Infinity;
+            const until = condition.until ? parseDate(condition.until, true) : Infinity;
+            criteria.push(message => message.date >= since && message.date <= until);
+        }
+
+        if (condition.all && condition.all.length) {
+            const all = condition.all.map(v => this.compile(v));
+            criteria.push(message => all.every(v => v(message)));
+        }
+
+        if (condition.any && condition.any.length) {
+            const any = condition.any.map(v => this.compile(v));
+            criteria.push(message => any.some(v => v(message)));
+        }
+
+        return criteria;
+    }
+}
+
+/**
+ * `/pattern/flags` or a plain pattern
+ */
+function compilePattern(text: string): RegExp {
+    const matches = text.match(/^\/([\s\S]*)\/([a-z]*)$/);
+
+    return matches ? new RegExp(matches[1], matches[2]) : new RegExp(text);
+}
+
+function getHashtags(message: Api.Message): string[] {
+    const text = message.message || '';
+
+    return (message.entities || [])
+        .filter(v => v instanceof Api.MessageEntityHashtag)
+        .map(v => text.substr(v.offset, v.length).replace(/^#/, '').toLowerCase());
+}
+
+function getFilename(message: Api.Message): string {
+    const document = message.document;
+
+    if (!document) return '';
+
+    const attribute = document.attributes.find(v => v instanceof Api.DocumentAttributeFilename) as Api.DocumentAttributeFilename;
+
+    return attribute ? attribute.fileName : '';
+}
+
+function getPeerId(peer: Api.TypePeer | undefined): string {
+    if (peer instanceof Api.PeerChannel) return peer.channelId.toString();
+    if (peer instanceof Api.PeerUser) return peer.userId.toString();
+    if (peer instanceof Api.PeerChat) return peer.chatId.toString();
+
+    return '';
+}
+
+/**
+ * Glob with `*` and `?` wildcards, case insensitive
+ */
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+
+    return new RegExp(`^${pattern}$`, 'i');
+}
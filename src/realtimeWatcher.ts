@@ -0,0 +1,152 @@
+import { Api, TelegramClient } from 'telegram';
+import { Raw } from 'telegram/events';
+import { Logger } from 'telegram/extensions/Logger';
+import { UpdateConnectionState } from 'telegram/network';
+
+/**
+ * Realtime Watcher
+ * Feeds new channel messages from Telegram updates instead of polling `GetHistory`
+ *
+ * A channel is only fed by updates once it is "live", i.e. the cursor-based catch-up
+ * reached its newest message. It falls back to catch-up (no longer live) when:
+ * - the connection was lost, updates in between are not replayed
+ * - Telegram reports `UpdateChannelTooLong`
+ * - the channel's `pts` skips, an update went missing
+ * - a message arrived while the catch-up was still running
+ */
+
+export type RealtimeMessageHandler = (channelId: string, message: Api.Message) => void;
+
+export class RealtimeWatcher {
+    // Newest message id per live channel, older updates are already queued
+    private heads = new Map<string, number>();
+    // Newest message id seen by updates while a channel catches up
+    private seen = new Map<string, number>();
+    private pts = new Map<string, number>();
+    private connected = true;
+
+    private builder = new Raw({});
+    private handler = (update: Api.TypeUpdate | UpdateConnectionState) => this.onUpdate(update);
+
+    constructor(
+        private client: TelegramClient,
+        private channelIds: string[],
+        private onMessage: RealtimeMessageHandler,
+        private logger?: Logger
+    ) {}
+
+    start() {
+        this.client.addEventHandler(this.handler, this.builder);
+    }
+
+    stop() {
+        this.client.removeEventHandler(this.handler, this.builder);
+
+        this.heads.clear();
+        this.seen.clear();
+        this.pts.clear();
+    }
+
+    /**
+     * Whether a channel is fed by updates, otherwise it has to be caught up by polling
+     */
+    isLive(channelId: string): boolean {
+        return this.heads.has(channelId);
+    }
+
+    /**
+     * Called when a catch-up fetched the newest messages of a channel
+     * @param headId Newest message id the catch-up queued
+     * @returns Whether the channel is live now, false if newer messages arrived meanwhile
+     */
+    markLive(channelId: string, headId: number): boolean {
+        if (!this.channelIds.includes(channelId) || (this.seen.get(channelId) || 0) > headId) {
+            return false;
+        }
+
+        this.seen.delete(channelId);
+        this.heads.set(channelId, headId);
+
+        if (this.logger) {
+            this.logger.debug(`Channel ${channelId} is live from message ${headId}`);
+        }
+
+        return true;
+    }
+
+    private catchUp(channelId: string, reason: string) {
+        if (!this.heads.delete(channelId)) return;
+
+        if (this.logger) {
+            this.logger.info(`Channel ${channelId} falls back to catch-up: ${reason}`);
+        }
+    }
+
+    private onUpdate(update: Api.TypeUpdate | UpdateConnectionState) {
+        if (update instanceof UpdateConnectionState) {
+            if (update.state != UpdateConnectionState.connected) {
+                this.connected = false;
+            } else if (!this.connected) {
+                this.connected = true;
+
+                for (const channelId of [...this.heads.keys()]) {
+                    this.catchUp(channelId, 'reconnected');
+                }
+                this.pts.clear();
+            }
+            return;
+        }
+
+        if (update instanceof Api.UpdateChannelTooLong) {
+            this.catchUp(update.channelId.toString(), 'too many updates');
+            return;
+        }
+
+        const channelId = getChannelId(update);
+
+        if (!channelId || !this.channelIds.includes(channelId)) return;
+
+        if ('pts' in update && 'ptsCount' in update) {
+            const pts = this.pts.get(channelId);
+
+            if (pts !== undefined && update.pts - update.ptsCount > pts) {
+                this.catchUp(channelId, `updates ${pts + 1}-${update.pts - update.ptsCount} are missing`);
+            }
+
+            this.pts.set(channelId, Math.max(pts || 0, update.pts));
+        }
+
+        if (!(update instanceof Api.UpdateNewChannelMessage) || !(update.message instanceof Api.Message)) return;
+
+        const message = update.message;
+
+        if (!this.isLive(channelId)) {
+            this.seen.set(channelId, Math.max(this.seen.get(channelId) || 0, message.id));
+            return;
+        }
+
+        if (message.id <= this.heads.get(channelId)) return;
+
+        this.heads.set(channelId, message.id);
+
+        this.onMessage(channelId, message);
+    }
+}
+
+/**
+ * Channel of an update that takes part in the channel's `pts` sequence
+ */
+function getChannelId(update: Api.TypeUpdate): string {
+    if (update instanceof Api.UpdateNewChannelMessage || update instanceof Api.UpdateEditChannelMessage) {
+        const peer = (update.message as Api.Message).peerId;
+
+        return peer instanceof Api.PeerChannel ? peer.channelId.toString() : '';
+    }
+
+    // UpdateDeleteChannelMessages, UpdatePinnedChannelMessages, UpdateChannelWebPage, ...
+    if ('channelId' in update && 'pts' in update) {
+        return update.channelId.toString();
+    }
+
+    return '';
+}
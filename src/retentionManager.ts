@@ -0,0 +1,130 @@
+import { Tonfig } from '@liesauer/tonfig';
+import { Logger } from 'telegram/extensions/Logger';
+
+import { Db } from './db';
+import { StorageSink } from './storageSink';
+
+/**
+ * Retention Manager
+ * Prunes the oldest files of a channel once it exceeds its retention policy
+ *
+ * Files are found through the `message` table (`date`, `savePath`), so `spider.saveRawMessage` is required
+ * A file is deleted when any limit is exceeded, counting from the newest message:
+ * - `retention.keepLast`: only the newest N files are kept
+ * - `retention.maxAgeDays`: files of messages older than N days are deleted
+ * - `retention.maxBytes`: the newest files are kept until their total size exceeds N bytes
+ *
+ * Every limit is configured per channel id, `_` is the default for channels without their own value, 0 disables the limit
+ */
+
+export interface RetentionPolicy {
+    maxBytes: number;
+    maxAgeDays: number;
+    keepLast: number;
+}
+
+export interface PrunedFile {
+    channelId: string;
+    savePath: string;
+    size: number;
+    reason: keyof RetentionPolicy;
+}
+
+export class RetentionManager {
+    constructor(private db: Db, private tonfig: Tonfig, private sink: StorageSink, private logger?: Logger) {}
+
+    /**
+     * Retention policy of a channel, falling back to the `_` defaults
+     */
+    getPolicy(channelId: string): RetentionPolicy {
+        const get = (name: keyof RetentionPolicy) => {
+            const value = this.tonfig.get<number>(['retention', name, channelId], null);
+
+            return Number(value ?? this.tonfig.get<number>(['retention', name, '_'], 0)) || 0;
+        };
+
+        return {
+            maxBytes: get('maxBytes'),
+            maxAgeDays: get('maxAgeDays'),
+            keepLast: get('keepLast'),
+        };
+    }
+
+    /**
+     * Enforce the retention policy of every channel in the message table
+     * @returns Files that were deleted
+     */
+    async prune(): Promise<PrunedFile[]> {
+        const channelIds = (this.db.prepareGetAll("SELECT DISTINCT channelId FROM message WHERE savePath != ''") as { channelId: string }[])
+            .map(v => v.channelId);
+
+        const pruned: PrunedFile[] = [];
+
+        for (const channelId of channelIds) {
+            pruned.push(...await this.pruneChannel(channelId));
+        }
+
+        return pruned;
+    }
+
+    private async pruneChannel(channelId: string): Promise<PrunedFile[]> {
+        const policy = this.getPolicy(channelId);
+
+        if (!policy.maxBytes && !policy.maxAgeDays && !policy.keepLast) return [];
+
+        const rows = this.db.prepareGetAll(
+            "SELECT id, savePath, date FROM message WHERE channelId = ? AND savePath != '' ORDER BY date DESC, id DESC",
+            channelId
+        ) as { id: number, savePath: string, date: number }[];
+
+        const minDate = policy.maxAgeDays ? Math.floor(Date.now() / 1000) - policy.maxAgeDays * 86400 : 0;
+        const pruned: PrunedFile[] = [];
+        let kept = 0;
+        let keptBytes = 0;
+
+        for (const row of rows) {
+            const size = await this.sink.size(row.savePath);
+
+            // Already gone, nothing to enforce
+            if (size === null) continue;
+
+            let reason: keyof RetentionPolicy | null = null;
+
+            if (policy.keepLast && kept >= policy.keepLast) {
+                reason = 'keepLast';
+            } else if (minDate && row.date < minDate) {
+                reason = 'maxAgeDays';
+            } else if (policy.maxBytes && keptBytes + size > policy.maxBytes) {
+                reason = 'maxBytes';
+            }
+
+            if (!reason) {
+                kept++;
+                keptBytes += size;
+                continue;
+            }
+
+            await this.remove(channelId, row.id, row.savePath);
+
+            pruned.push({ channelId, savePath: row.savePath, size, reason });
+
+            if (this.logger) {
+                this.logger.info(`Retention (${reason}) deleted ${row.savePath} (${size} bytes)`);
+            }
+        }
+
+        return pruned;
+    }
+
+    private async remove(channelId: string, id: number, savePath: string) {
+        // Messages of other channels may point to the same file (deduplicated with `skip`), keep it for them
+        const shared = this.db.prepareGet("SELECT COUNT(*) AS count FROM message WHERE savePath = ? AND channelId != ?", savePath, channelId)?.['count'];
+
+        if (!shared) {
+            await this.sink.remove(savePath);
+            this.db.prepareRun("DELETE FROM verification WHERE savePath = ?", savePath);
+        }
+
+        this.db.prepareRun("UPDATE message SET savePath = '' WHERE id = ?", id);
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Semaphore
+ * Async counting semaphore, waiters are woken in arrival order when a slot is released
+ *
+ * The limit may be a function so it can follow a changing value (e.g. the flood-scaled concurrency)
+ */
+export class Semaphore {
+    private active = 0;
+    private waiters: (() => void)[] = [];
+
+    /**
+     * @param limit Maximum number of holders, or a function returning the current maximum
+     */
+    constructor(private limit: number | (() => number)) {}
+
+    get pending(): number {
+        return this.waiters.length;
+    }
+
+    get running(): number {
+        return this.active;
+    }
+
+    /**
+     * Wait for a free slot
+     * @returns Function releasing the slot, calling it more than once has no effect
+     */
+    async acquire(): Promise<() => void> {
+        if (this.active < this.getLimit() && !this.waiters.length) {
+            this.active++;
+        } else {
+            // The slot is handed over by `wake`
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+
+        let released = false;
+
+        return () => {
+            if (released) return;
+
+            released = true;
+            this.active--;
+            this.wake();
+        };
+    }
+
+    /**
+     * Run a task while holding a slot
+     */
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        const release = await this.acquire();
+
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    }
+
+    private getLimit(): number {
+        return Math.max(1, typeof this.limit == 'function' ? this.limit() : this.limit);
+    }
+
+    private wake() {
+        while (this.waiters.length && this.active < this.getLimit()) {
+            this.active++;
+            this.waiters.shift()();
+        }
+    }
+}
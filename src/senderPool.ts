@@ -0,0 +1,212 @@
+import { Api, TelegramClient } from 'telegram';
+import { Logger } from 'telegram/extensions/Logger';
+import { MTProtoSender } from 'telegram/network';
+import { LAYER } from 'telegram/tl/AllTLObjects';
+
+import { DownloadStalledError } from './errors';
+import { FloodController } from './floodController';
+import { withTimeout } from './functions';
+import { Semaphore } from './semaphore';
+
+/**
+ * Sender Pool
+ * Persistent connections per DC shared by every file and channel being downloaded
+ *
+ * - Each DC gets up to `connectionsPerDc` senders, opened lazily and reused round-robin
+ *   (unlike `client.getSender`, idle senders are not released after 30 seconds)
+ * - Requests per DC are capped by a semaphore, so many parallel files can't flood one DC
+ */
+export class SenderPool {
+    private senders = new Map<number, Promise<MTProtoSender>[]>();
+    private cursors = new Map<number, number>();
+    private limits = new Map<number, Semaphore>();
+
+    /**
+     * @param connectionsPerDc Number of connections kept per DC
+     * @param maxRequestsPerDc Concurrent requests allowed per DC across all files
+     */
+    constructor(
+        private client: TelegramClient,
+        private connectionsPerDc: number,
+        private maxRequestsPerDc: number,
+        private logger?: Logger,
+        private flood?: FloodController
+    ) {}
+
+    /**
+     * DC of the logged in account
+     */
+    get homeDcId(): number {
+        return this.client.session.dcId;
+    }
+
+    /**
+     * Invoke a request on a DC through a pooled sender
+     * @param dcId Target DC, the home DC if omitted
+     * @param timeout Milliseconds to wait for the response, 0 to wait forever
+     * @throws DownloadStalledError on timeout, the sender is reconnected for later requests
+     */
+    async invoke<R extends Api.AnyRequest>(dcId: number | undefined, request: R, timeout: number = 0): Promise<R['__response']> {
+        const dc = dcId || this.homeDcId;
+
+        return await this.schedule(dc, async () => {
+            const sender = await this.getSender(dc);
+
+            return await withTimeout(this.client.invokeWithSender(request, sender), timeout, () => {
+                if (this.logger) {
+                    this.logger.warn(`${request.className} on DC ${dc} got no response in ${timeout / 1000}s, reconnecting`);
+                }
+
+                // The hung request is abandoned, dropping its connection frees the DC slot for good
+                this.reset(dc, sender);
+
+                return new DownloadStalledError(`${request.className} on DC ${dc} timed out after ${timeout / 1000}s`);
+            }) as R['__response'];
+        });
+    }
+
+    /**
+     * Run a request under the per-DC request cap
+     */
+    schedule<T>(dcId: number, request: () => Promise<T>): Promise<T> {
+        if (!this.limits.has(dcId)) {
+            this.limits.set(dcId, new Semaphore(this.maxRequestsPerDc));
+        }
+
+        return this.limits.get(dcId).run(request);
+    }
+
+    /**
+     * Drop a sender and open a fresh connection in its place on next use
+     */
+    async reset(dcId: number, sender: MTProtoSender) {
+        const pool = this.senders.get(dcId) || [];
+
+        for (let i = 0; i < pool.length; i++) {
+            if (pool[i] && await pool[i].catch(() => null) === sender) {
+                pool[i] = null;
+            }
+        }
+
+        await sender.disconnect().catch(() => {});
+    }
+
+    /**
+     * Pick the next sender of a DC, connecting it if needed
+     */
+    private async getSender(dcId: number): Promise<MTProtoSender> {
+        if (!this.senders.has(dcId)) {
+            this.senders.set(dcId, []);
+        }
+
+        const pool = this.senders.get(dcId);
+        const index = (this.cursors.get(dcId) || 0) % Math.max(1, this.connectionsPerDc);
+
+        this.cursors.set(dcId, index + 1);
+
+        if (!pool[index]) {
+            pool[index] = this.connect(dcId).catch(error => {
+                pool[index] = null;
+                throw error;
+            });
+        }
+
+        const sender = await pool[index];
+
+        // The connection dropped, reconnect the same sender so its auth key is kept
+        if (!sender.isConnected() && !sender.isConnecting) {
+            if (this.logger) {
+                this.logger.info(`Reconnecting pooled sender ${index + 1} of DC ${dcId}`);
+            }
+            pool[index] = this.client._connectSender(sender, dcId);
+            return await pool[index];
+        }
+
+        return sender;
+    }
+
+    private async connect(dcId: number): Promise<MTProtoSender> {
+        if (this.logger) {
+            this.logger.info(`Opening pooled connection to DC ${dcId}`);
+        }
+
+        const home = dcId === this.homeDcId;
+
+        // Foreign DCs generate their own auth key and import the authorization on connect
+        const sender: MTProtoSender = new MTProtoSender(home ? this.client.session.getAuthKey(dcId) : undefined, {
+            logger: this.client._log,
+            dcId,
+            retries: this.client._connectionRetries,
+            reconnectRetries: this.client._reconnectRetries,
+            delay: this.client._retryDelay,
+            autoReconnect: this.client._autoReconnect,
+            connectTimeout: this.client._timeout,
+            authKeyCallback: undefined,
+            isMainSender: false,
+            onConnectionBreak: () => this.reset(dcId, sender),
+            client: this.client,
+            securityChecks: true,
+            _exportedSenderPromises: new Map(),
+        });
+
+        if (home) {
+            return await this.client._connectSender(sender, dcId);
+        }
+
+        return await this.authorize(sender, dcId);
+    }
+
+    /**
+     * Connect a sender to a foreign DC and import the authorization of the home DC
+     *
+     * `_connectSender` would export the authorization itself, but it retries every error
+     * each second, and gramjs doesn't sleep on FLOOD_WAIT (the shared handling does)
+     */
+    private async authorize(sender: MTProtoSender, dcId: number): Promise<MTProtoSender> {
+        const exportAuthorization = () => this.client.invoke(new Api.auth.ExportAuthorization({ dcId }));
+
+        const auth = await (this.flood ? this.flood.run('download', exportAuthorization) : exportAuthorization());
+        const dc = await this.client.getDC(dcId, false);
+        const init = this.client._initRequest;
+
+        try {
+            await sender.connect(new this.client._connection({
+                ip: dc.ipAddress,
+                port: dc.port,
+                dcId,
+                loggers: this.client._log,
+                proxy: this.client['_proxy'],
+                socket: this.client.networkSocket,
+                testServers: this.client.testServers,
+            }), false);
+
+            await sender.send(new Api.InvokeWithLayer({
+                layer: LAYER,
+                query: new Api.InitConnection({
+                    apiId: init.apiId,
+                    deviceModel: init.deviceModel,
+                    systemVersion: init.systemVersion,
+                    appVersion: init.appVersion,
+                    systemLangCode: init.systemLangCode,
+                    langPack: init.langPack,
+                    langCode: init.langCode,
+                    proxy: init.proxy,
+                    query: new Api.auth.ImportAuthorization({
+                        id: auth.id,
+                        bytes: auth.bytes,
+                    }),
+                }),
+            }));
+        } catch (error) {
+            await sender.disconnect().catch(() => {});
+            throw error;
+        }
+
+        // Reconnects through `_connectSender` then skip the export
+        sender._authenticated = true;
+        sender.dcId = dcId;
+        sender.userDisconnected = false;
+
+        return sender;
+    }
+}
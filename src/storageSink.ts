@@ -0,0 +1,319 @@
+import { createHash, createHmac } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import http from 'http';
+import https from 'https';
+import { dirname, relative } from 'path';
+import { Readable } from 'stream';
+import { Logger } from 'telegram/extensions/Logger';
+
+/**
+ * Storage Sink
+ * Where completed downloads end up, addressed by a key relative to the archive root
+ * (e.g. `频道名/_1/123_video.mp4`, the same layout as the local `data` folder)
+ *
+ * Files are always downloaded to a local path first (so resuming and verification keep working),
+ * then committed to the sink, which moves them into their final place
+ */
+export interface StorageSink {
+    /**
+     * Local path a file is downloaded to before it is committed
+     */
+    localPath(key: string): string;
+
+    /**
+     * Move a completely downloaded local file into the storage
+     */
+    commit(localPath: string, key: string): Promise<void>;
+
+    exists(key: string): Promise<boolean>;
+
+    /**
+     * Size of a stored file
+     * @returns Bytes, null if the file doesn't exist
+     */
+    size(key: string): Promise<number | null>;
+
+    remove(key: string): Promise<void>;
+
+    /**
+     * Make `key` refer to the already stored `existingKey`
+     * @param symbolic Symbolic instead of hard link
+     * @returns false if the storage has no links
+     */
+    link(existingKey: string, key: string, symbolic: boolean): Promise<boolean>;
+
+    /**
+     * Human readable location for logs
+     */
+    describe(): string;
+}
+
+/**
+ * Local filesystem, files are downloaded straight into place
+ */
+export class LocalStorageSink implements StorageSink {
+    constructor(private root: string) {}
+
+    localPath(key: string): string {
+        return `${this.root}/${key}`;
+    }
+
+    async commit(localPath: string, key: string): Promise<void> {
+        const target = this.localPath(key);
+
+        if (localPath !== target) {
+            await fs.rename(localPath, target);
+        }
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return fs.access(this.localPath(key)).then(() => true, () => false);
+    }
+
+    async size(key: string): Promise<number | null> {
+        return fs.stat(this.localPath(key)).then(stat => stat.size, () => null);
+    }
+
+    async remove(key: string): Promise<void> {
+        await fs.rm(this.localPath(key), { force: true });
+    }
+
+    async link(existingKey: string, key: string, symbolic: boolean): Promise<boolean> {
+        const target = this.localPath(existingKey);
+        const path = this.localPath(key);
+
+        await fs.mkdir(dirname(path), { recursive: true });
+        await fs.rm(path, { force: true });
+
+        if (symbolic) {
+            // Relative, so the archive can be moved as a whole
+            await fs.symlink(relative(dirname(path), target), path);
+        } else {
+            await fs.link(target, path);
+        }
+
+        return true;
+    }
+
+    describe(): string {
+        return this.root;
+    }
+}
+
+export interface S3Options {
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    prefix: string;
+}
+
+interface S3Response {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+/**
+ * S3-compatible object storage (AWS S3, MinIO, ...), path-style addressing with SigV4 signing
+ * Downloads are staged locally one file at a time and removed once uploaded
+ */
+export class S3StorageSink implements StorageSink {
+    /** Files above this size are uploaded in parts of this size */
+    private static readonly PART_SIZE = 64 * 1024 * 1024;
+
+    private endpoint: URL;
+
+    /**
+     * @param stagingRoot Local folder for files that are still downloading
+     */
+    constructor(private options: S3Options, private stagingRoot: string, private logger?: Logger) {
+        this.endpoint = new URL(options.endpoint);
+    }
+
+    localPath(key: string): string {
+        return `${this.stagingRoot}/${key}`;
+    }
+
+    async commit(localPath: string, key: string): Promise<void> {
+        const { size } = await fs.stat(localPath);
+
+        if (size <= S3StorageSink.PART_SIZE) {
+            await this.request('PUT', key, {}, createReadStream(localPath), size);
+        } else {
+            await this.multipartUpload(localPath, key, size);
+        }
+
+        if (this.logger) {
+            this.logger.debug(`Uploaded ${key} to ${this.describe()}`);
+        }
+
+        await fs.rm(localPath, { force: true });
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return await this.size(key) !== null;
+    }
+
+    async size(key: string): Promise<number | null> {
+        const response = await this.request('HEAD', key, {}, undefined, undefined, false);
+
+        if (response.status == 404) return null;
+        if (response.status >= 300) {
+            throw new Error(`S3 HEAD ${key} failed: ${response.status}`);
+        }
+
+        return Number(response.headers['content-length'] || 0);
+    }
+
+    async remove(key: string): Promise<void> {
+        await this.request('DELETE', key);
+    }
+
+    async link(existingKey: string, key: string, symbolic: boolean): Promise<boolean> {
+        return false;
+    }
+
+    describe(): string {
+        return `${this.endpoint.origin}/${this.options.bucket}/${this.options.prefix}`;
+    }
+
+    private async multipartUpload(localPath: string, key: string, size: number) {
+        const created = await this.request('POST', key, { uploads: '' });
+        const uploadId = (created.body.match(/<UploadId>([^<]+)<\/UploadId>/) || [])[1];
+
+        if (!uploadId) {
+            throw new Error(`S3 multipart upload of ${key} returned no UploadId`);
+        }
+
+        try {
+            const parts: string[] = [];
+
+            for (let offset = 0, partNumber = 1; offset < size; offset += S3StorageSink.PART_SIZE, partNumber++) {
+                const end = Math.min(offset + S3StorageSink.PART_SIZE, size);
+
+                const response = await this.request('PUT', key, {
+                    partNumber: `${partNumber}`,
+                    uploadId,
+                }, createReadStream(localPath, { start: offset, end: end - 1 }), end - offset);
+
+                parts.push(`<Part><PartNumber>${partNumber}</PartNumber><ETag>${response.headers.etag}</ETag></Part>`);
+            }
+
+            const body = Buffer.from(`<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`);
+
+            await this.request('POST', key, { uploadId }, Readable.from([body]), body.length);
+        } catch (error) {
+            await this.request('DELETE', key, { uploadId }, undefined, undefined, false).catch(() => {});
+            throw error;
+        }
+    }
+
+    /**
+     * Send a signed request for an object
+     * @param strict Throw on non-2xx responses
+     */
+    private request(
+        method: string,
+        key: string,
+        query: { [name: string]: string } = {},
+        body?: Readable,
+        contentLength?: number,
+        strict: boolean = true
+    ): Promise<S3Response> {
+        const path = `/${this.options.bucket}/${this.options.prefix}${key}`.split('/').map(encodeRfc3986).join('/');
+        const queryString = Object.keys(query).sort().map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`).join('&');
+
+        const headers: http.OutgoingHttpHeaders = {
+            'host': this.endpoint.host,
+            'x-amz-content-sha256': 'UNSIGNED-PAYLOAD',
+            'x-amz-date': new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''),
+        };
+
+        headers['authorization'] = this.sign(method, path, queryString, headers);
+
+        if (contentLength !== undefined) {
+            headers['content-length'] = contentLength;
+        }
+
+        const transport = this.endpoint.protocol == 'https:' ? https : http;
+
+        return new Promise<S3Response>((resolve, reject) => {
+            const req = transport.request({
+                method,
+                protocol: this.endpoint.protocol,
+                hostname: this.endpoint.hostname,
+                port: this.endpoint.port,
+                path: queryString ? `${path}?${queryString}` : path,
+                headers,
+            }, res => {
+                const chunks: Buffer[] = [];
+
+                res.on('data', chunk => chunks.push(chunk));
+                res.on('error', reject);
+                res.on('end', () => {
+                    const response = { status: res.statusCode, headers: res.headers, body: Buffer.concat(chunks).toString('utf-8') };
+
+                    if (strict && (response.status < 200 || response.status >= 300)) {
+                        reject(new Error(`S3 ${method} ${key} failed: ${response.status} ${response.body}`));
+                    } else {
+                        resolve(response);
+                    }
+                });
+            });
+
+            req.on('error', reject);
+
+            if (body) {
+                body.on('error', reject);
+                body.pipe(req);
+            } else {
+                req.end();
+            }
+        });
+    }
+
+    /**
+     * AWS Signature Version 4
+     * @see https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+     */
+    private sign(method: string, path: string, queryString: string, headers: http.OutgoingHttpHeaders): string {
+        const amzDate = `${headers['x-amz-date']}`;
+        const date = amzDate.slice(0, 8);
+        const scope = `${date}/${this.options.region}/s3/aws4_request`;
+
+        const signedHeaders = Object.keys(headers).sort();
+        const canonicalHeaders = signedHeaders.map(name => `${name}:${`${headers[name]}`.trim()}\n`).join('');
+
+        const canonicalRequest = [
+            method,
+            path,
+            queryString,
+            canonicalHeaders,
+            signedHeaders.join(';'),
+            'UNSIGNED-PAYLOAD',
+        ].join('\n');
+
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            createHash('sha256').update(canonicalRequest).digest('hex'),
+        ].join('\n');
+
+        const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.options.secretAccessKey}`, date), this.options.region), 's3'), 'aws4_request');
+        const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        return `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`;
+    }
+}
+
+/**
+ * URI encoding as required by SigV4 (everything but unreserved characters)
+ */
+function encodeRfc3986(text: string): string {
+    return encodeURIComponent(text).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
@@ -0,0 +1,18 @@
+PRAGMA foreign_keys = false;
+
+-- ----------------------------
+-- Table structure for verification
+-- ----------------------------
+DROP TABLE IF EXISTS "verification";
+CREATE TABLE "verification" (
+  "savePath" TEXT NOT NULL,
+  "verified" INTEGER NOT NULL,
+  "date"     DATE NOT NULL,
+  CONSTRAINT "savePath" UNIQUE ("savePath" ASC)
+);
+
+-- ----------------------------
+-- Records of verification
+-- ----------------------------
+
+PRAGMA foreign_keys = true;